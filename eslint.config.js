@@ -18,7 +18,9 @@ export default [
       "@typescript-eslint/no-var-requires": "error",
       "@typescript-eslint/no-unused-vars": [
         "error",
-        { argsIgnorePattern: "^_" },
+        // `interface Dom<T>` augmentations must repeat the class's type
+        // parameter even when their members do not use it
+        { argsIgnorePattern: "^_", varsIgnorePattern: "^T$" },
       ],
     },
   },
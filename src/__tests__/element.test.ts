@@ -0,0 +1,152 @@
+import { describe, it, expect, expectTypeOf, beforeEach } from "vitest";
+import { html, signal } from "../index";
+import { define } from "../element";
+
+let n = 0;
+const tag = () => `x-test-${++n}`;
+
+beforeEach(() => {
+  document.body.innerHTML = "";
+});
+
+describe("define()", () => {
+  it("renders into an open shadow root with styles", () => {
+    const name = tag();
+    define(name, {
+      styles: [":host { display: block }", "b { color: red }"],
+      render: () => html`<b>hi</b>`,
+    });
+    document.body.innerHTML = `<${name}></${name}>`;
+    const el = document.querySelector(name)!;
+    expect(el.shadowRoot!.querySelector("b")!.textContent).toBe("hi");
+    expect(el.shadowRoot!.adoptedStyleSheets.length).toBe(1);
+  });
+
+  it("reflects observed attributes to typed props and re-renders", () => {
+    const name = tag();
+    const renders: string[] = [];
+    const X = define(name, {
+      props: {
+        count: Number,
+        label: { type: String, default: "Count" },
+        open: Boolean,
+        maxItems: { type: Number, default: 5, reflect: false },
+      },
+      render() {
+        renders.push(`${this.label}:${this.count}`);
+        return html`<span>${this.label}: ${this.count}</span>`;
+      },
+    });
+    document.body.innerHTML = `<${name} count="2" open></${name}>`;
+    const el = document.querySelector(name) as InstanceType<typeof X>;
+    expect(el).toBeInstanceOf(X);
+    expectTypeOf(el.count).toEqualTypeOf<number>();
+    expectTypeOf(el.open).toEqualTypeOf<boolean>();
+    expect([el.count, el.label, el.open, el.maxItems]).toEqual([
+      2,
+      "Count",
+      true,
+      5,
+    ]);
+    expect(el.shadowRoot!.textContent).toBe("Count: 2");
+
+    el.setAttribute("count", "7");
+    expect(el.count).toBe(7);
+    el.label = "Total";
+    expect(el.getAttribute("label")).toBe("Total");
+    expect(el.shadowRoot!.textContent).toBe("Total: 7");
+    el.open = false;
+    expect(el.hasAttribute("open")).toBe(false);
+    el.setAttribute("max-items", "9");
+    expect(el.maxItems).toBe(9);
+    el.maxItems = 3;
+    expect(el.getAttribute("max-items")).toBe("9");
+    expect(renders).toEqual(["Count:2", "Count:7", "Total:7"]);
+  });
+
+  it("scopes this.$ to the shadow root", () => {
+    const name = tag();
+    define(name, {
+      props: { count: Number },
+      render() {
+        return html`<button class="b">${this.count}</button>`;
+      },
+      connected() {
+        this.$.on("click", () => this.count++);
+      },
+    });
+    document.body.innerHTML = `<button class="b"></button><${name} count="4"></${name}>`;
+    const el = document.querySelector(name) as any;
+    expect(el.$.find(".b").length).toBe(1);
+    expect(document.querySelectorAll(".b").length).toBe(1);
+    el.$.find(".b").first.click();
+    expect(el.count).toBe(5);
+    expect(el.getAttribute("count")).toBe("5");
+    expect(el.$.find(".b").text()).toBe("5");
+  });
+
+  it("removes on() listeners and runs cleanups on disconnect", async () => {
+    const name = tag();
+    const log: string[] = [];
+    const outside = signal(1);
+    define(name, {
+      render() {
+        return html`<button @click=${() => log.push("click")}>
+          ${outside.value}
+        </button>`;
+      },
+      connected() {
+        this.$.find("button").on("focus", () => log.push("focus"));
+        return () => log.push("cleanup");
+      },
+      disconnected() {
+        log.push("disconnected");
+      },
+    });
+    const el = document.createElement(name) as any;
+    document.body.append(el);
+    const btn = el.$.find("button").first as HTMLButtonElement;
+    btn.click();
+    el.remove();
+    await Promise.resolve();
+    btn.click();
+    btn.dispatchEvent(new FocusEvent("focus"));
+    outside.value = 2; // render effect is stopped
+    expect(el.shadowRoot.childNodes.length).toBe(0);
+    expect(log).toEqual(["click", "cleanup", "disconnected"]);
+
+    document.body.append(el); // reconnect renders again
+    el.$.find("button").first.click();
+    expect(el.shadowRoot.textContent.trim()).toBe("2");
+    expect(log.slice(3)).toEqual(["click"]);
+  });
+
+  it("keeps its tree and state when moved to another parent", async () => {
+    const name = tag();
+    const log: string[] = [];
+    define(name, {
+      props: { label: String },
+      render() {
+        log.push("render");
+        return html`<input /><b>${this.label}</b>`;
+      },
+      connected() {
+        log.push("connected");
+        return () => log.push("cleanup");
+      },
+    });
+    document.body.innerHTML = `<div id="a"></div><div id="b"></div>`;
+    const el = document.createElement(name) as any;
+    document.getElementById("a")!.append(el);
+    const input = el.shadowRoot.querySelector("input") as HTMLInputElement;
+    input.value = "typed";
+
+    document.getElementById("b")!.append(el);
+    await Promise.resolve();
+    expect(el.shadowRoot.querySelector("input")).toBe(input);
+    expect(input.value).toBe("typed");
+    expect(log).toEqual(["render", "connected"]);
+    el.label = "on"; // still rendering
+    expect(el.shadowRoot.querySelector("b").textContent).toBe("on");
+  });
+});
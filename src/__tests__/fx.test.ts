@@ -1,34 +1,73 @@
 import { describe, it, expect, beforeEach, vi, afterEach } from "vitest";
-import "../index";
+import { Dom, dom, mutate } from "../index";
+import { fx, enableFx, ease } from "../fx";
 
-const { enableFx, ease } = await import("../fx");
+describe("fx — plugin", () => {
+  beforeEach(() => {
+    Dom.use(fx);
+  });
+
+  it("adds animation methods to Dom", () => {
+    const $box = dom("#box");
+    expect(typeof $box.fade).toBe("function");
+    expect(typeof $box.move).toBe("function");
+    expect(typeof $box.scale).toBe("function");
+    expect(typeof $box.rotate).toBe("function");
+    expect(typeof $box.stop).toBe("function");
+    expect(typeof $box.to).toBe("function");
+  });
+
+  it("installing again (or via enableFx) is a no-op", () => {
+    expect(Dom.use(fx)).toBe(Dom.use(fx));
+    expect(() => enableFx()).not.toThrow();
+    expect(typeof dom("#box").fade).toBe("function");
+  });
+});
+
+describe("fx — tweens", () => {
+  let frames: (() => void)[] = [];
+  let clock = 0;
+  const frame = () => frames.splice(0).forEach((cb) => cb());
 
-describe("fx — enableFx", () => {
-  beforeEach(async () => {
-    vi.useFakeTimers();
-    await enableFx();
+  beforeEach(() => {
+    Dom.use(fx);
+    frames = [];
+    clock = 0;
+    vi.stubGlobal("requestAnimationFrame", (cb: () => void) => frames.push(cb));
+    vi.spyOn(performance, "now").mockImplementation(() => clock);
+    document.body.innerHTML = `<div id="box" style="opacity: 1"></div>`;
   });
 
   afterEach(() => {
     vi.restoreAllMocks();
-    vi.useRealTimers();
+    vi.unstubAllGlobals();
   });
 
-  it("patches Dom.prototype with animation methods", async () => {
-    const $box = (await import("../index")).dom("#box");
-    expect(typeof ($box as any).fade).toBe("function");
-    expect(typeof ($box as any).move).toBe("function");
-    expect(typeof ($box as any).scale).toBe("function");
-    expect(typeof ($box as any).rotate).toBe("function");
-    expect(typeof ($box as any).stop).toBe("function");
-    expect(typeof ($box as any).to).toBe("function");
+  it("reads start values and writes frames through the scheduler", () => {
+    const el = document.getElementById("box")!;
+    const order: string[] = [];
+    dom("#box").to({ opacity: 0 }, 100, ease.linear);
+    mutate(() => order.push(`other write, opacity ${el.style.opacity}`));
+    expect(el.style.opacity).toBe("1");
+    frame(); // read phase, then the first frame lands with other writes
+    expect(order).toEqual(["other write, opacity 1"]);
+    expect(el.style.opacity).toBe("1");
+    clock = 50;
+    frame();
+    expect(el.style.opacity).toBe("0.5");
+    clock = 100;
+    frame();
+    expect(el.style.opacity).toBe("0");
+    expect(frames.length).toBe(0);
   });
 
-  it("enableFx() is idempotent", async () => {
-    await enableFx();
-    await enableFx();
-    const $box = (await import("../index")).dom("#box");
-    expect(typeof ($box as any).fade).toBe("function");
+  it("stop() cancels pending frames", () => {
+    dom("#box").to({ opacity: 0 }, 100, ease.linear);
+    frame();
+    dom("#box").stop();
+    clock = 50;
+    frame();
+    expect(document.getElementById("box")!.style.opacity).toBe("1");
   });
 });
 
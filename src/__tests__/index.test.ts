@@ -1,5 +1,29 @@
-import { describe, it, expect, beforeEach } from "vitest";
-import dom, { Dom, make } from "../index";
+import {
+  describe,
+  it,
+  expect,
+  expectTypeOf,
+  beforeEach,
+  afterEach,
+  vi,
+} from "vitest";
+import dom, {
+  Dom,
+  make,
+  sanitize,
+  signal,
+  computed,
+  effect,
+  isSignal,
+  shortcuts,
+  announce,
+  measure,
+  mutate,
+  html,
+  toFormData,
+  toParams,
+  fromEntries,
+} from "../index";
 
 describe("dom() — core selection", () => {
   beforeEach(() => {
@@ -70,6 +94,108 @@ describe("make() — element creation", () => {
   });
 });
 
+describe("sanitize() — allowlist policy", () => {
+  const VECTORS = [
+    "<script>alert(1)</script>",
+    '<img src="x" onerror="alert(1)">',
+    '<a href="javascript:alert(1)">x</a>',
+    '<a href="java&#x09;script:alert(1)">x</a>',
+    '<a href=" JAVASCRIPT:alert(1)">x</a>',
+    '<iframe srcdoc="<script>alert(1)</script>"></iframe>',
+    '<object data="javascript:alert(1)"></object>',
+    '<embed src="javascript:alert(1)">',
+    '<svg><use href="data:image/svg+xml,<svg onload=alert(1)>"/></svg>',
+    '<svg><animate attributeName="href" values="javascript:alert(1)"/></svg>',
+    "<style>body{background:expression(alert(1))}</style>",
+    '<div style="width: expression(alert(1))">x</div>',
+    '<div style="background:url(javascript:alert(1))">x</div>',
+    '<form action="javascript:alert(1)"><button formaction="javascript:alert(1)">go</button></form>',
+    '<img srcset="ok.png 1x, javascript:alert(1) 2x">',
+    '<math><mi xlink:href="javascript:alert(1)">x</mi></math>',
+    "<details open ontoggle=alert(1)>x</details>",
+    "<!--<img src=x onerror=alert(1)>-->",
+  ];
+
+  function dangerous(root: ParentNode): string[] {
+    const bad: string[] = [];
+    root.querySelectorAll("*").forEach((el) => {
+      const tag = el.localName;
+      if (/^(script|style|iframe|object|embed|svg|math)$/.test(tag))
+        bad.push(tag);
+      Array.from(el.attributes).forEach((a) => {
+        if (/^on/i.test(a.name) || a.name === "srcdoc") bad.push(a.name);
+        if (/javascript:|data:|expression\(/i.test(a.value.replace(/\s/g, "")))
+          bad.push(`${a.name}=${a.value}`);
+      });
+    });
+    return bad;
+  }
+
+  it.each(VECTORS)("neutralizes %s", (vector) => {
+    const host = document.createElement("div");
+    dom(host).html(vector);
+    expect(dangerous(host)).toEqual([]);
+    const tpl = document.createElement("template");
+    tpl.innerHTML = sanitize(vector);
+    expect(dangerous(tpl.content)).toEqual([]);
+    expect(dangerous(make(`<div>${vector}</div>`).first as Element)).toEqual(
+      [],
+    );
+  });
+
+  it("keeps harmless text that looks like an attribute", () => {
+    expect(sanitize("<p>button= onclick= ok</p>")).toBe(
+      "<p>button= onclick= ok</p>",
+    );
+  });
+
+  it("keeps safe links and relative URLs", () => {
+    expect(sanitize('<a href="/docs" title="t">d</a>')).toBe(
+      '<a href="/docs" title="t">d</a>',
+    );
+    expect(sanitize('<a href="mailto:a@b.c">m</a>')).toContain("mailto:");
+  });
+
+  it("unwraps unknown tags but keeps their text", () => {
+    expect(sanitize("<blink>hi <b>there</b></blink>")).toBe("hi <b>there</b>");
+  });
+
+  it("keeps data-* and aria-* attributes", () => {
+    expect(sanitize('<span data-id="1" aria-label="x">s</span>')).toBe(
+      '<span data-id="1" aria-label="x">s</span>',
+    );
+  });
+
+  it("accepts custom tags, attrs and schemes", () => {
+    const policy = { tags: ["p", "a"], attrs: ["href"], schemes: ["myapp"] };
+    expect(
+      sanitize('<p class="x"><a href="myapp:open">o</a><b>b</b></p>', policy),
+    ).toBe('<p><a href="myapp:open">o</a>b</p>');
+    expect(sanitize('<a href="https://x.y">l</a>', policy)).toBe("<a>l</a>");
+  });
+
+  it("falls back to the default for fields left undefined", () => {
+    const policy = { tags: undefined, attrs: undefined, trusted: undefined };
+    expect(sanitize('<p class="x" onclick="go()">p</p>', policy)).toBe(
+      '<p class="x">p</p>',
+    );
+    expect(make("<b onclick='go()'>x</b>", policy).outer()).toBe("<b>x</b>");
+  });
+
+  it("trusted skips sanitizing", () => {
+    const host = document.createElement("div");
+    dom(host).html('<b onclick="go()">x</b>', { trusted: true });
+    expect(host.innerHTML).toBe('<b onclick="go()">x</b>');
+    expect(
+      make('<b onclick="go()">x</b>', { trusted: true }).attr("onclick"),
+    ).toBe("go()");
+  });
+
+  it("make() with a tag name still takes attributes", () => {
+    expect(make("a", { href: "/x" }).attr("href")).toBe("/x");
+  });
+});
+
 describe("Dom collection helpers", () => {
   beforeEach(() => {
     document.body.innerHTML = `
@@ -202,6 +328,133 @@ describe("content methods", () => {
   });
 });
 
+describe("form() — serialization and population", () => {
+  beforeEach(() => {
+    document.body.innerHTML = `
+      <form id="f">
+        <input name="user[name]" value="Ann" />
+        <input name="user[address][city]" value="Dhaka" />
+        <input name="age" type="number" value="30" />
+        <input name="tags[]" value="a" />
+        <input name="tags[]" value="b" />
+        <input name="agree" type="checkbox" checked />
+        <input name="colors" type="checkbox" value="red" checked />
+        <input name="colors" type="checkbox" value="blue" />
+        <input name="size" type="radio" value="s" />
+        <input name="size" type="radio" value="m" checked />
+        <select name="langs" multiple>
+          <option value="en" selected>en</option>
+          <option value="bn" selected>bn</option>
+          <option value="fr">fr</option>
+        </select>
+        <textarea name="bio">hi</textarea>
+        <input name="secret" value="x" disabled />
+        <button name="go" value="1">Go</button>
+      </form>
+    `;
+  });
+
+  it("reads a typed, nested object", () => {
+    expect(dom("#f").form()).toEqual({
+      user: { name: "Ann", address: { city: "Dhaka" } },
+      age: 30,
+      tags: ["a", "b"],
+      agree: true,
+      colors: ["red"],
+      size: "m",
+      langs: ["en", "bn"],
+      bio: "hi",
+    });
+  });
+
+  it("turns repeated plain names into arrays", () => {
+    document.body.innerHTML = `<div id="f"><input name="q" value="1" /><input name="q" value="2" /></div>`;
+    expect(dom("#f").form()).toEqual({ q: ["1", "2"] });
+  });
+
+  it("reads empty radio groups and numbers as null", () => {
+    document.body.innerHTML = `<form id="f"><input name="r" type="radio" value="a" /><input name="n" type="number" /></form>`;
+    expect(dom("#f").form()).toEqual({ r: null, n: null });
+  });
+
+  it("fills every control from an object", () => {
+    dom("#f").form({
+      user: { address: { city: "Sylhet" } },
+      age: 41,
+      tags: ["x", "y"],
+      agree: false,
+      colors: ["blue"],
+      size: "s",
+      langs: ["fr"],
+    });
+    const v = dom("#f").form<{
+      user: { name: string; address: { city: string } };
+      age: number;
+    }>();
+    expect(v.user).toEqual({ name: "Ann", address: { city: "Sylhet" } });
+    expect(v).toMatchObject({
+      age: 41,
+      tags: ["x", "y"],
+      agree: false,
+      colors: ["blue"],
+      size: "s",
+      langs: ["fr"],
+    });
+  });
+
+  it("fills from URLSearchParams and FormData", () => {
+    dom("#f").form(new URLSearchParams("user[name]=Bo&size=s&colors=blue"));
+    expect(dom("#f").form()).toMatchObject({
+      user: { name: "Bo" },
+      size: "s",
+      colors: ["blue"],
+    });
+    const fd = new FormData();
+    fd.append("bio", "from fd");
+    dom("#f").form(fd);
+    expect(dom("#f").form().bio).toBe("from fd");
+  });
+
+  it("converts values to FormData / URLSearchParams and back", () => {
+    const values = {
+      user: { name: "Ann", address: { city: "Dhaka" } },
+      tags: ["a", "b"],
+      items: [{ id: 1 }, { id: 2 }],
+      skip: null,
+    };
+    const params = toParams(values);
+    expect(params.toString()).toBe(
+      "user%5Bname%5D=Ann&user%5Baddress%5D%5Bcity%5D=Dhaka&tags%5B%5D=a&tags%5B%5D=b&items%5B0%5D%5Bid%5D=1&items%5B1%5D%5Bid%5D=2",
+    );
+    expect(fromEntries(params)).toEqual({
+      user: { name: "Ann", address: { city: "Dhaka" } },
+      tags: ["a", "b"],
+      items: [{ id: "1" }, { id: "2" }],
+    });
+    expect(toFormData(values).getAll("tags[]")).toEqual(["a", "b"]);
+  });
+
+  it("ignores names that would reach Object.prototype", () => {
+    const out = fromEntries(
+      new URLSearchParams(
+        "__proto__[polluted]=yes&a[constructor][prototype][x]=1&ok=1",
+      ),
+    );
+    expect(({} as any).polluted).toBeUndefined();
+    expect(({} as any).x).toBeUndefined();
+    expect(out).toEqual({ ok: "1" });
+
+    document.body.innerHTML = `<form id="p">
+      <input name="__proto__[formPolluted]" value="yes">
+      <input name="toString" value="1">
+      <input name="hasOwnProperty[x]" value="2">
+    </form>`;
+    const values = dom("#p").form();
+    expect(({} as any).formPolluted).toBeUndefined();
+    expect(values).toEqual({ toString: "1", hasOwnProperty: { x: "2" } });
+  });
+});
+
 describe("attr & data methods", () => {
   beforeEach(() => {
     document.body.innerHTML = `<a id="link" href="/page" data-user-id="42" class="nav-link">Link</a>`;
@@ -313,6 +566,54 @@ describe("css & style methods", () => {
     );
   });
 
+  it("css(name) reads the computed style without touching it", () => {
+    const el = document.querySelector("#box") as HTMLElement;
+    expect(dom("#box").css("color")).toBe("red");
+    expect(el.style.color).toBe("red");
+    expect(dom("#nope").css("color")).toBe("");
+  });
+
+  it("css([names]) reads several computed values", () => {
+    dom("#box").css({ width: 120, "--gap": "4px" });
+    expect(dom("#box").css(["width", "color", "--gap"])).toEqual({
+      width: "120px",
+      color: "red",
+      "--gap": "4px",
+    });
+  });
+
+  it("keeps unitless numbers bare", () => {
+    dom("#box").css({
+      lineHeight: 1.5,
+      flexGrow: 2,
+      fontWeight: 600,
+      order: 3,
+      zIndex: 4,
+      opacity: 0.5,
+      WebkitLineClamp: 2,
+      width: 10,
+    });
+    const st = (document.querySelector("#box") as HTMLElement).style;
+    expect(st.getPropertyValue("line-height")).toBe("1.5");
+    expect(st.getPropertyValue("flex-grow")).toBe("2");
+    expect(st.getPropertyValue("font-weight")).toBe("600");
+    expect(st.getPropertyValue("order")).toBe("3");
+    expect(st.getPropertyValue("z-index")).toBe("4");
+    expect(st.getPropertyValue("opacity")).toBe("0.5");
+    expect(st.getPropertyValue("-webkit-line-clamp")).toBe("2");
+    expect(st.getPropertyValue("width")).toBe("10px");
+  });
+
+  it("sets custom properties and !important priority", () => {
+    dom("#box").css("--gap", 8).css("color", "blue !important");
+    const st = (document.querySelector("#box") as HTMLElement).style;
+    expect(st.getPropertyValue("--gap")).toBe("8");
+    expect(st.getPropertyValue("color")).toBe("blue");
+    expect(st.getPropertyPriority("color")).toBe("important");
+    dom("#box").css("--gap", null);
+    expect(st.getPropertyValue("--gap")).toBe("");
+  });
+
   it("show() removes display:none", () => {
     (document.querySelector("#box") as HTMLElement).style.display = "none";
     dom("#box").show();
@@ -345,6 +646,351 @@ describe("css & style methods", () => {
   });
 });
 
+describe("signals", () => {
+  it("signal() reads and writes .value", () => {
+    const n = signal(1);
+    n.value = 2;
+    expect(n.value).toBe(2);
+    expect(n.peek()).toBe(2);
+    expect(isSignal(n)).toBe(true);
+    expect(isSignal(2)).toBe(false);
+  });
+
+  it("effect() re-runs when a dependency changes", () => {
+    const n = signal(1);
+    const seen: number[] = [];
+    const stop = effect(() => {
+      seen.push(n.value);
+    });
+    n.value = 2;
+    n.value = 2; // same value — no re-run
+    stop();
+    n.value = 3;
+    expect(seen).toEqual([1, 2]);
+  });
+
+  it("effect() runs cleanup before re-run and on dispose", () => {
+    const n = signal(0);
+    const log: string[] = [];
+    const stop = effect(() => {
+      const v = n.value;
+      log.push(`run ${v}`);
+      return () => log.push(`clean ${v}`);
+    });
+    n.value = 1;
+    stop();
+    expect(log).toEqual(["run 0", "clean 0", "run 1", "clean 1"]);
+  });
+
+  it("effect() only tracks signals read in the latest run", () => {
+    const flag = signal(true);
+    const a = signal("a");
+    const b = signal("b");
+    let runs = 0;
+    effect(() => {
+      runs++;
+      void (flag.value ? a.value : b.value);
+    });
+    flag.value = false;
+    a.value = "a2"; // no longer read
+    expect(runs).toBe(2);
+    b.value = "b2";
+    expect(runs).toBe(3);
+  });
+
+  it("computed() derives from other signals", () => {
+    const n = signal(2);
+    const double = computed(() => n.value * 2);
+    expect(double.value).toBe(4);
+    n.value = 5;
+    expect(double.value).toBe(10);
+  });
+
+  it("computed() lets go of its sources once nothing depends on it", async () => {
+    const n = signal(1);
+    let runs = 0;
+    const double = computed(() => (runs++, n.value * 2));
+    const seen: number[] = [];
+    const stop = effect(() => {
+      seen.push(double.value);
+    });
+    n.value = 2;
+    expect(seen).toEqual([2, 4]);
+    stop();
+    await Promise.resolve();
+    const before = runs;
+    n.value = 3;
+    n.value = 4;
+    expect(runs).toBe(before);
+    expect(double.value).toBe(8);
+    expect(seen).toEqual([2, 4]);
+  });
+
+  it("sub() notifies on change and unsubscribes", () => {
+    const n = signal(0);
+    const seen: number[] = [];
+    const off = n.sub((v) => seen.push(v));
+    n.value = 1;
+    off();
+    n.value = 2;
+    expect(seen).toEqual([1]);
+  });
+});
+
+describe("signal bindings", () => {
+  beforeEach(() => {
+    document.body.innerHTML = `<div id="host"><p id="n"></p><a id="a"></a></div>`;
+  });
+
+  it("text() follows a signal", () => {
+    const count = signal(1);
+    dom("#n").text(count);
+    expect(dom("#n").text()).toBe("1");
+    count.value = 2;
+    expect(dom("#n").text()).toBe("2");
+  });
+
+  it("attr() follows a signal, null removes", () => {
+    const href = signal<string | null>("/a");
+    dom("#a").attr({ href });
+    expect(dom("#a").attr("href")).toBe("/a");
+    href.value = null;
+    expect(dom("#a").attr("href")).toBeNull();
+  });
+
+  it("class() toggles names from a map of booleans or signals", () => {
+    const isOn = signal(false);
+    dom("#n").class({ active: isOn, static: true });
+    const el = document.getElementById("n")!;
+    expect(el.className).toBe("static");
+    isOn.value = true;
+    expect(el.classList.contains("active")).toBe(true);
+  });
+
+  it("css() follows a signal", () => {
+    const w = signal(10);
+    dom("#n").css("width", w);
+    w.value = 20;
+    expect((document.getElementById("n") as HTMLElement).style.width).toBe(
+      "20px",
+    );
+  });
+
+  it("html() and empty() drop a text binding, text() unbinds replaced children", () => {
+    const count = signal(1);
+    dom("#n").text(count).html("<b>x</b>");
+    count.value = 2;
+    expect(dom("#n").html()).toBe("<b>x</b>");
+
+    const label = signal("a");
+    dom("#n b").text(label);
+    const b = document.querySelector("#n b")!;
+    dom("#n").text("plain");
+    label.value = "b";
+    expect(b.textContent).toBe("a");
+
+    dom("#n").text(count).empty();
+    count.value = 3;
+    expect(dom("#n").html()).toBe("");
+  });
+
+  it("a plain write replaces the binding", () => {
+    const count = signal(1);
+    dom("#n").text(count).text("fixed");
+    count.value = 2;
+    expect(dom("#n").text()).toBe("fixed");
+  });
+
+  it("rm() disposes bindings of the element and its descendants", () => {
+    const count = signal(1);
+    dom("#n").text(count);
+    const el = document.getElementById("n")!;
+    dom("#host").rm();
+    count.value = 2;
+    expect(el.textContent).toBe("1");
+  });
+
+  it("replace() disposes bindings of the replaced element", () => {
+    const count = signal(1);
+    dom("#n").text(count);
+    const el = document.getElementById("n")!;
+    dom("#n").replace("<p>new</p>");
+    count.value = 2;
+    expect(el.textContent).toBe("1");
+  });
+});
+
+describe("html`` — tagged templates", () => {
+  beforeEach(() => {
+    document.body.innerHTML = `<div id="app"></div>`;
+  });
+
+  it("returns a Dom of the template nodes", () => {
+    const d = html`<p class="x">hi</p>`;
+    expect(d).toBeInstanceOf(Dom);
+    expect((d.first as Element).outerHTML).toBe('<p class="x">hi</p>');
+  });
+
+  it("escapes interpolated text", () => {
+    const evil = '<img src=x onerror="alert(1)">';
+    const d = html`<p>${evil}</p>`;
+    const p = d.first as Element;
+    expect(p.querySelector("img")).toBeNull();
+    expect(p.textContent).toBe(evil);
+  });
+
+  it("escapes interpolated attribute values", () => {
+    const evil = '"><img src=x onerror=alert(1)>';
+    const d = html`<p title=${evil} class="a ${"b"} c">x</p>`;
+    const p = d.first as Element;
+    expect(p.getAttribute("title")).toBe(evil);
+    expect(p.getAttribute("class")).toBe("a b c");
+    expect(p.querySelector("img")).toBeNull();
+  });
+
+  it("drops unsafe URLs in URL attributes", () => {
+    const d = html`<a href=${"javascript:alert(1)"}>x</a>`;
+    expect((d.first as Element).hasAttribute("href")).toBe(false);
+    const ok = html`<a href="/u/${"42"}">x</a>`;
+    expect((ok.first as Element).getAttribute("href")).toBe("/u/42");
+  });
+
+  it("refuses holes in event handler and srcdoc attributes", () => {
+    const s = "alert(1)";
+    expect(() => html`<div onclick=${s}>x</div>`).toThrow(/@event/);
+    expect(() => html`<div ONMOUSEOVER="${s}">x</div>`).toThrow(/@event/);
+    expect(
+      () => html`<iframe srcdoc=${"<script>alert(1)</script>"}></iframe>`,
+    ).toThrow(/srcdoc/);
+  });
+
+  it("refuses holes in properties that parse markup", () => {
+    const s = "<img src=x onerror=alert(1)>";
+    expect(() => html`<div .innerHTML=${s}></div>`).toThrow(/innerHTML/);
+    expect(() => html`<div .outerHTML=${s}></div>`).toThrow(/outerHTML/);
+    expect(() => html`<iframe .srcdoc=${s}></iframe>`).toThrow(/srcdoc/);
+    const ok = html`<input .value=${s} />`;
+    expect((ok.first as HTMLInputElement).value).toBe(s);
+  });
+
+  it("checks style and srcset values like the sanitizer", () => {
+    const d = html`<p style=${"background:url(javascript:alert(1))"}>x</p>`;
+    expect((d.first as Element).hasAttribute("style")).toBe(false);
+    const img = html`<img srcset="ok.png 1x, ${"javascript:alert(1)"} 2x" />`;
+    expect((img.first as Element).hasAttribute("srcset")).toBe(false);
+    const fine = html`<p style=${"color: red"}>x</p>`;
+    expect((fine.first as Element).getAttribute("style")).toBe("color: red");
+  });
+
+  it("removes attributes bound to null or false", () => {
+    const d = html`<p title=${null}>x</p>`;
+    expect((d.first as Element).hasAttribute("title")).toBe(false);
+  });
+
+  it("binds events, properties and boolean attributes", () => {
+    let clicks = 0;
+    const d = html`<input
+      @click=${() => clicks++}
+      .value=${"typed"}
+      ?disabled=${true}
+    />`;
+    const input = d.first as HTMLInputElement;
+    input.dispatchEvent(new Event("click"));
+    expect(clicks).toBe(1);
+    expect(input.value).toBe("typed");
+    expect(input.disabled).toBe(true);
+  });
+
+  it("nests Doms, nodes and arrays", () => {
+    const items = ["a", "b"].map((t) => html`<li>${t}</li>`);
+    const d = html`<ul>
+      ${items}${make("li").text("c")}
+    </ul>`;
+    expect((d.first as Element).textContent?.trim()).toBe("abc");
+  });
+
+  it("render() patches only dynamic parts on re-render", () => {
+    let clicks = "";
+    const view = (name: string, n: number) =>
+      html`<div class="card ${n > 1 ? "many" : ""}">
+        <h3 @click=${() => (clicks += name)}>${name}</h3>
+        <input />
+        <span>${n}</span>
+      </div>`;
+    dom("#app").render(view("A", 1));
+    const card = document.querySelector(".card")!;
+    const input = card.querySelector("input")!;
+    const text = card.querySelector("span")!.firstChild;
+    input.value = "kept";
+
+    dom("#app").render(view("B", 2));
+    expect(document.querySelector(".card")).toBe(card);
+    expect(card.querySelector("input")!.value).toBe("kept");
+    expect(card.querySelector("span")!.firstChild).toBe(text);
+    expect(card.querySelector("h3")!.textContent).toBe("B");
+    expect(card.className).toBe("card many");
+    (card.querySelector("h3") as HTMLElement).click();
+    expect(clicks).toBe("B");
+  });
+
+  it("render() builds a re-rendered template only when it cannot patch", () => {
+    const view = (t: string) => html`<p>${html`<b>${t}</b>`}</p>`;
+    const made = vi.spyOn(document, "importNode");
+    dom("#app").render(view("x"));
+    expect(made).toHaveBeenCalledTimes(2);
+    dom("#app").render(view("y"));
+    dom("#app").render(view("z"));
+    expect(made).toHaveBeenCalledTimes(2);
+    expect(dom("#app b").text()).toBe("z");
+    made.mockRestore();
+  });
+
+  it("render() patches nested templates in place", () => {
+    const row = (t: string) => html`<b>${t}</b>`;
+    const view = (t: string) => html`<p>${row(t)}</p>`;
+    dom("#app").render(view("x"));
+    const b = document.querySelector("#app b");
+    dom("#app").render(view("y"));
+    expect(document.querySelector("#app b")).toBe(b);
+    expect(b?.textContent).toBe("y");
+  });
+
+  it("render() replaces content for a different template", () => {
+    dom("#app").render(html`<p>one</p>`);
+    dom("#app").render(html`<span>${"two"}</span>`);
+    expect(document.getElementById("app")!.innerHTML).toBe(
+      "<span><!--mw-->two</span>",
+    );
+  });
+
+  it("rejects interpolation outside values and children", () => {
+    expect(() => html`<p ${"x"}>y</p>`).toThrow(/attribute value/);
+    expect(() => html`<textarea>${"x"}</textarea>`).toThrow(/\.value=/);
+    expect(() => html`<title>a ${"x"}</title>`).toThrow(/<title>/);
+    expect(
+      () =>
+        html`<style>
+          p {
+            color: ${"red"};
+          }
+        </style>`,
+    ).toThrow(/<style>/);
+    expect(
+      () =>
+        html`<script>
+          ${"x"};
+        </script>`,
+    ).toThrow(/<script>/);
+    // holes after a closed raw-text element are children again
+    const d = html`<div>
+      <textarea>a</textarea>${"x"}
+      <p>${"y"}</p>
+    </div>`;
+    expect((d.first as Element).querySelector("p")!.textContent).toBe("y");
+    expect(d.text().replace(/\s/g, "")).toBe("axy");
+  });
+});
+
 describe("tree operations", () => {
   beforeEach(() => {
     document.body.innerHTML = `
@@ -433,6 +1079,367 @@ describe("tree operations", () => {
   });
 });
 
+describe("keyed() — keyed list rendering", () => {
+  type Row = { id: number; name: string };
+  const ids = () =>
+    Array.from(document.querySelectorAll("#list > li")).map((li) => li.id);
+
+  beforeEach(() => {
+    document.body.innerHTML = `<ul id="list"></ul>`;
+  });
+
+  const row = (r: Row) => make("li", { id: `r${r.id}` }).text(r.name) as Dom;
+
+  it("renders items in order", () => {
+    const a = { id: 1, name: "A" };
+    const b = { id: 2, name: "B" };
+    dom("#list").keyed([a, b], "id", row);
+    expect(ids()).toEqual(["r1", "r2"]);
+    expect(dom("#list").text()).toBe("AB");
+  });
+
+  it("reuses nodes and renders only new items", () => {
+    const a = { id: 1, name: "A" };
+    const b = { id: 2, name: "B" };
+    const c = { id: 3, name: "C" };
+    let renders = 0;
+    const render = (r: Row) => (renders++, row(r));
+    dom("#list").keyed([a, b], "id", render);
+    const first = document.getElementById("r1");
+    dom("#list").keyed([c, b, a], "id", render);
+    expect(renders).toBe(3);
+    expect(ids()).toEqual(["r3", "r2", "r1"]);
+    expect(document.getElementById("r1")).toBe(first);
+  });
+
+  it("calls update only for changed items", () => {
+    const a = { id: 1, name: "A" };
+    const b = { id: 2, name: "B" };
+    const updated: number[] = [];
+    const update = (el: Element, r: Row) => {
+      updated.push(r.id);
+      el.textContent = r.name;
+    };
+    dom("#list").keyed([a, b], (r) => r.id, row, update);
+    dom("#list").keyed([a, { id: 2, name: "B2" }], (r) => r.id, row, update);
+    expect(updated).toEqual([2]);
+    expect(dom("#list").text()).toBe("AB2");
+  });
+
+  it("moves only what is out of place", () => {
+    const rows = [1, 2, 3, 4, 5].map((id) => ({ id, name: String(id) }));
+    dom("#list").keyed(rows, "id", row);
+    const ul = document.getElementById("list")!;
+    const inserted: string[] = [];
+    const insertBefore = ul.insertBefore.bind(ul);
+    ul.insertBefore = ((n: Node, ref: Node | null) => {
+      inserted.push((n as Element).id);
+      return insertBefore(n, ref);
+    }) as typeof ul.insertBefore;
+    dom("#list").keyed(
+      [rows[1], rows[2], rows[3], rows[4], rows[0]],
+      "id",
+      row,
+    );
+    expect(ids()).toEqual(["r2", "r3", "r4", "r5", "r1"]);
+    expect(inserted).toEqual(["r1"]);
+  });
+
+  it("keeps focus on nodes that are not moved", () => {
+    const rows = [1, 2, 3].map((id) => ({ id, name: String(id) }));
+    const input = (r: Row) => make("input", { id: `r${r.id}` });
+    dom("#list").keyed(rows, "id", input);
+    (document.getElementById("r2") as HTMLInputElement).focus();
+    dom("#list").keyed([rows[1], rows[2]], "id", input);
+    expect(document.activeElement?.id).toBe("r2");
+  });
+
+  it("removes stale nodes and releases their listeners", () => {
+    const a = { id: 1, name: "A" };
+    const b = { id: 2, name: "B" };
+    let clicks = 0;
+    dom("#list").keyed([a, b], "id", (r) => row(r).on("click", () => clicks++));
+    const gone = document.getElementById("r2")!;
+    dom("#list").keyed([a], "id", row);
+    expect(ids()).toEqual(["r1"]);
+    gone.dispatchEvent(new Event("click"));
+    expect(clicks).toBe(0);
+  });
+
+  it("adopts server-rendered children by data-key", () => {
+    document.body.innerHTML = `<ul id="list"><li data-key="1" id="r1">old</li></ul>`;
+    const el = document.getElementById("r1");
+    dom("#list").keyed(
+      [{ id: 1, name: "A" }],
+      "id",
+      row,
+      (li, r) => (li.textContent = r.name),
+    );
+    expect(document.getElementById("r1")).toBe(el);
+    expect(el?.textContent).toBe("A");
+  });
+
+  it("accepts markup from render", () => {
+    dom("#list").keyed(
+      ["x", "y"],
+      (s) => s,
+      (s) => `<li id="${s}">${s}</li>`,
+    );
+    expect(ids()).toEqual(["x", "y"]);
+  });
+
+  it("throws on duplicate keys", () => {
+    expect(() =>
+      dom("#list").keyed(
+        [1, 1],
+        (n) => n,
+        () => make("li"),
+      ),
+    ).toThrow(/duplicate key/);
+  });
+
+  it("leaves the list untouched when keys are duplicated", () => {
+    document.body.innerHTML = `<ul id="list"><li>loose</li></ul>`;
+    const a = { id: 1, name: "A" };
+    dom("#list").keyed([a], "id", row);
+    document.getElementById("list")!.append(make("li").text("extra").first!);
+    const before = dom("#list").html();
+    expect(() =>
+      dom("#list").keyed([{ id: 1, name: "B" }, a, a], "id", row),
+    ).toThrow(/duplicate key/);
+    expect(dom("#list").html()).toBe(before);
+  });
+});
+
+declare module "../index" {
+  interface DomEvents {
+    "cart:add": { sku: string; qty: number };
+  }
+}
+
+describe("watch() & live() — mutations", () => {
+  const flush = () => new Promise((r) => setTimeout(r, 0));
+
+  beforeEach(() => {
+    document.body.innerHTML = `<div id="root"><p class="w" id="p1"></p></div>`;
+  });
+
+  it("watch() reports added and removed elements as Dom", async () => {
+    const seen: string[] = [];
+    const stop = dom("#root").watch({}, ({ added, removed }) => {
+      seen.push(...added.map((el) => `+${el.id}`));
+      seen.push(...removed.map((el) => `-${el.id}`));
+    });
+    dom("#root").add(make('<span id="s1"></span>'));
+    dom("#p1").rm();
+    await flush();
+    expect(seen).toEqual(["+s1", "-p1"]);
+    stop();
+    dom("#root").add(make('<span id="s2"></span>'));
+    await flush();
+    expect(seen).toEqual(["+s1", "-p1"]);
+  });
+
+  it("watch() filters, including descendants of added nodes", async () => {
+    const seen: string[] = [];
+    dom("#root").watch({ filter: ".w" }, ({ added }) =>
+      seen.push(...added.map((el) => el.id)),
+    );
+    dom("#root").html('<section><i class="w" id="deep"></i><i></i></section>');
+    await flush();
+    expect(seen).toEqual(["deep"]);
+  });
+
+  it("watch() reports attribute changes", async () => {
+    const seen: string[] = [];
+    dom("#root").watch({ attributes: ["title"] }, ({ changed, records }) => {
+      seen.push(...changed.map((el) => el.id));
+      seen.push(...records.map((r) => r.attributeName ?? ""));
+    });
+    dom("#p1").attr("title", "x").attr("lang", "en");
+    await flush();
+    expect(seen).toEqual(["p1", "title"]);
+  });
+
+  it("live() runs for existing and future matches and on leave", async () => {
+    const log: string[] = [];
+    const stop = dom(document).live(
+      ".w",
+      (el) => log.push(`enter ${el.id}`),
+      (el) => log.push(`leave ${el.id}`),
+    );
+    expect(log).toEqual(["enter p1"]);
+    dom("#root").add(make('<div><b class="w" id="b1"></b></div>'));
+    await flush();
+    expect(log).toEqual(["enter p1", "enter b1"]);
+    dom("#p1").class("!w");
+    dom("#b1").rm();
+    await flush();
+    expect(log).toEqual(["enter p1", "enter b1", "leave p1", "leave b1"]);
+    stop();
+    dom("#root").add(make('<b class="w" id="b2"></b>'));
+    await flush();
+    expect(log).toHaveLength(4);
+  });
+
+  it("live() ignores moves inside the root", async () => {
+    document.body.innerHTML = `<div id="root"><p class="w" id="p1"></p><div id="box"></div></div>`;
+    const log: string[] = [];
+    dom("#root").live(
+      ".w",
+      (el) => log.push(`enter ${el.id}`),
+      (el) => log.push(`leave ${el.id}`),
+    );
+    dom("#box").add(dom("#p1"));
+    await flush();
+    expect(log).toEqual(["enter p1"]);
+  });
+});
+
+describe("seen() & resized() — shared observers", () => {
+  class FakeObserver {
+    static all: FakeObserver[] = [];
+    targets = new Set<Element>();
+    constructor(
+      public cb: (entries: any[]) => void,
+      public opts?: unknown,
+    ) {
+      FakeObserver.all.push(this);
+    }
+    observe(el: Element) {
+      this.targets.add(el);
+    }
+    unobserve(el: Element) {
+      this.targets.delete(el);
+    }
+    disconnect() {
+      this.targets.clear();
+    }
+    fire(el: Element, extra: object = {}) {
+      this.cb([{ target: el, ...extra }]);
+    }
+  }
+
+  beforeEach(() => {
+    FakeObserver.all = [];
+    vi.stubGlobal("IntersectionObserver", FakeObserver);
+    vi.stubGlobal("ResizeObserver", FakeObserver);
+    document.body.innerHTML = `<div id="a"></div><div id="b"></div>`;
+  });
+
+  afterEach(() => {
+    dom("#a, #b").off();
+    vi.unstubAllGlobals();
+  });
+
+  const el = (id: string) => document.getElementById(id)!;
+
+  it("shares one observer per distinct options", () => {
+    dom("#a").seen(() => {}, { threshold: 0.5 });
+    dom("#b").seen(() => {}, { threshold: 0.5 });
+    dom("#a").seen(() => {}, { threshold: 1 });
+    expect(FakeObserver.all).toHaveLength(2);
+    expect(FakeObserver.all[0].targets).toEqual(new Set([el("a"), el("b")]));
+    expect(FakeObserver.all[0].opts).toEqual({
+      threshold: 0.5,
+      rootMargin: "0px",
+    });
+  });
+
+  it("delivers entries to every subscriber of the element", () => {
+    const got: string[] = [];
+    dom("#a").seen((e) => got.push(`1:${e.isIntersecting}`));
+    dom("#a").seen((e) => got.push(`2:${e.isIntersecting}`));
+    dom("#b").seen(() => got.push("b"));
+    FakeObserver.all[0].fire(el("a"), { isIntersecting: true });
+    expect(got).toEqual(["1:true", "2:true"]);
+  });
+
+  it("replays the last entry to late subscribers", async () => {
+    dom("#a").seen(() => {});
+    FakeObserver.all[0].fire(el("a"), { isIntersecting: true });
+    let late = false;
+    dom("#a").seen((e) => (late = e.isIntersecting));
+    await Promise.resolve();
+    expect(late).toBe(true);
+  });
+
+  it("once fires on the first intersection, then unobserves", () => {
+    let count = 0;
+    dom("#a").seen(() => count++, { once: true });
+    const io = FakeObserver.all[0];
+    io.fire(el("a"), { isIntersecting: false });
+    io.fire(el("a"), { isIntersecting: true });
+    io.fire(el("a"), { isIntersecting: true });
+    expect(count).toBe(1);
+    expect(io.targets.size).toBe(0);
+  });
+
+  it("off() disposes observers like listeners", () => {
+    const h = () => {};
+    dom("#a")
+      .seen(h)
+      .seen(() => {});
+    dom("#b").resized(h);
+    const [io, ro] = FakeObserver.all;
+    dom("#a").off("seen", h);
+    expect(io.targets.has(el("a"))).toBe(true);
+    dom("#a").off("seen");
+    expect(io.targets.has(el("a"))).toBe(false);
+    dom("#b").off();
+    expect(ro.targets.size).toBe(0);
+  });
+
+  it("resized() reports entries from a shared ResizeObserver", () => {
+    const got: Element[] = [];
+    dom("#a").resized((e) => got.push(e.target));
+    dom("#b").resized((e) => got.push(e.target));
+    expect(FakeObserver.all).toHaveLength(1);
+    FakeObserver.all[0].fire(el("b"));
+    expect(got).toEqual([el("b")]);
+  });
+});
+
+describe("emit() — custom events", () => {
+  beforeEach(() => {
+    document.body.innerHTML = `<div id="shop"><button id="buy">Buy</button></div>`;
+  });
+
+  it("dispatches a typed CustomEvent that bubbles by default", () => {
+    let sku = "";
+    dom("#shop").on("cart:add", (ev) => (sku = ev.detail.sku));
+    dom("#buy").emit("cart:add", { sku: "A-1", qty: 2 });
+    expect(sku).toBe("A-1");
+  });
+
+  it("respects bubbles, composed and cancelable", () => {
+    let outer = 0;
+    let ev: CustomEvent | undefined;
+    dom("#shop").on("cart:add", () => outer++);
+    dom("#buy").on("cart:add", (e) => (ev = e));
+    dom("#buy").emit(
+      "cart:add",
+      { sku: "A-1", qty: 1 },
+      { bubbles: false, composed: true, cancelable: false },
+    );
+    expect(outer).toBe(0);
+    expect(ev?.composed).toBe(true);
+    expect(ev?.cancelable).toBe(false);
+  });
+
+  it("works with namespaces and undeclared names", () => {
+    const got: unknown[] = [];
+    dom("#buy").on("cart:add.shop", (ev) => got.push(ev.detail.qty));
+    dom("#buy").emit("cart:add", { sku: "x", qty: 3 });
+    dom("#buy").off(".shop").emit("cart:add", { sku: "x", qty: 4 });
+    document
+      .getElementById("buy")!
+      .addEventListener("ping", (ev) => got.push((ev as CustomEvent).detail));
+    dom("#buy").emit("ping", "pong");
+    expect(got).toEqual([3, "pong"]);
+  });
+});
+
 describe("event methods", () => {
   beforeEach(() => {
     document.body.innerHTML = `<button id="btn">Click</button><div id="outer"><div id="inner"></div></div>`;
@@ -491,6 +1498,72 @@ describe("event methods", () => {
     (document.querySelector("#inner") as HTMLElement).click();
     expect(captured).toBe(true);
   });
+
+  it("off(type, handler) removes once() and onD() listeners", () => {
+    let count = 0;
+    const h = () => count++;
+    dom("#outer").once("click", h).onD("click", "#inner", h);
+    dom("#outer").off("click", h);
+    (document.querySelector("#inner") as HTMLElement).click();
+    expect(count).toBe(0);
+  });
+
+  it("off('.ns') removes only that namespace", () => {
+    const log: string[] = [];
+    dom("#btn")
+      .on("click.menu", () => log.push("menu"))
+      .on("keydown.menu", () => log.push("key"))
+      .on("click", () => log.push("plain"));
+    dom("#btn").off(".menu");
+    const btn = document.querySelector("#btn") as HTMLButtonElement;
+    btn.click();
+    btn.dispatchEvent(new KeyboardEvent("keydown"));
+    expect(log).toEqual(["plain"]);
+  });
+
+  it("off('type.ns') narrows by type and namespace", () => {
+    const log: string[] = [];
+    dom("#btn")
+      .on("click.a.b", () => log.push("ab"))
+      .on("click.a", () => log.push("a"))
+      .on("focus.a", () => log.push("focus"));
+    dom("#btn").off("click.b");
+    (document.querySelector("#btn") as HTMLButtonElement).click();
+    dom("#btn").off("click.a");
+    (document.querySelector("#btn") as HTMLButtonElement).click();
+    expect(log).toEqual(["a"]);
+  });
+
+  it("namespaced listeners receive typed events", () => {
+    let x = -1;
+    dom("#btn").on("click.menu", (ev) => (x = ev.clientX));
+    (document.querySelector("#btn") as HTMLButtonElement).click();
+    expect(x).toBe(0);
+  });
+
+  it("off() removes capture listeners with the capture flag they used", () => {
+    let count = 0;
+    const h = () => count++;
+    dom("#outer").on("click", h, { capture: true });
+    dom("#outer").on("click", h);
+    dom("#outer").off("click", h, true);
+    (document.querySelector("#inner") as HTMLElement).click();
+    expect(count).toBe(1);
+    dom("#outer").off("click", h);
+    (document.querySelector("#inner") as HTMLElement).click();
+    expect(count).toBe(1);
+  });
+
+  it("once() fires once per element", () => {
+    document.body.innerHTML = `<i class="x"></i><i class="x"></i>`;
+    let count = 0;
+    dom(".x").once("click", () => count++);
+    document.querySelectorAll<HTMLElement>(".x").forEach((el) => {
+      el.click();
+      el.click();
+    });
+    expect(count).toBe(2);
+  });
 });
 
 describe("scroll methods", () => {
@@ -535,3 +1608,1176 @@ describe("iterator", () => {
     expect(items).toEqual(["a", "b", "c"]);
   });
 });
+
+describe("keys() — keyboard shortcuts", () => {
+  const mac = /Mac|iP(hone|ad|od)/.test(
+    navigator.platform || navigator.userAgent,
+  );
+  const press = (
+    el: EventTarget,
+    key: string,
+    mods: Partial<KeyboardEventInit> = {},
+  ) => {
+    const ev = new KeyboardEvent("keydown", {
+      key,
+      bubbles: true,
+      cancelable: true,
+      ...mods,
+    });
+    el.dispatchEvent(ev);
+    return ev;
+  };
+
+  beforeEach(() => {
+    document.body.innerHTML = `<div id="panel"><button id="b">b</button><input id="i"></div><p id="out"></p>`;
+  });
+  afterEach(() => {
+    dom(document).off();
+    dom("#panel").off();
+  });
+
+  it("matches modifier combos and treats mod as Cmd/Ctrl", () => {
+    const hits: string[] = [];
+    dom(document)
+      .keys("mod+k", () => hits.push("mod+k"))
+      .keys("ctrl+shift+p", () => hits.push("ctrl+shift+p"));
+    const b = document.getElementById("b")!;
+    press(b, "k");
+    press(b, "k", { ctrlKey: !mac, metaKey: mac, shiftKey: true });
+    const ev = press(b, "k", { ctrlKey: !mac, metaKey: mac });
+    press(b, "P", { ctrlKey: true, shiftKey: true });
+    expect(hits).toEqual(["mod+k", "ctrl+shift+p"]);
+    expect(ev.defaultPrevented).toBe(true);
+  });
+
+  it("falls back to the physical key only without a plain character", () => {
+    const hits: string[] = [];
+    dom(document)
+      .keys("z", () => hits.push("z"))
+      .keys("alt+a", () => hits.push("alt+a"));
+    const b = document.getElementById("b")!;
+    press(b, "y", { code: "KeyZ" }); // QWERTZ
+    press(b, "å", { code: "KeyA", altKey: true }); // macOS Option
+    press(b, "я", { code: "KeyZ" }); // Cyrillic
+    expect(hits).toEqual(["alt+a", "z"]);
+  });
+
+  it("supports sequences that reset after a timeout", () => {
+    vi.useFakeTimers();
+    try {
+      let n = 0;
+      dom(document).keys("g i", () => n++, { timeout: 500 });
+      const b = document.getElementById("b")!;
+      press(b, "g");
+      press(b, "i");
+      expect(n).toBe(1);
+      press(b, "g");
+      vi.advanceTimersByTime(600);
+      press(b, "i");
+      expect(n).toBe(1);
+      press(b, "g");
+      press(b, "x");
+      press(b, "i");
+      expect(n).toBe(1);
+      press(b, "g");
+      press(b, "Shift");
+      press(b, "i");
+      expect(n).toBe(2);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("scopes to the target and ignores typing unless opted in", () => {
+    const hits: string[] = [];
+    dom("#panel").keys("/", () => hits.push("panel"));
+    dom(document).keys("/", () => hits.push("doc"), { inputs: true });
+    press(document.getElementById("out")!, "/");
+    press(document.getElementById("i")!, "/");
+    press(document.getElementById("b")!, "/");
+    expect(hits).toEqual(["doc", "doc", "panel", "doc"]);
+  });
+
+  it("lists active bindings and cleans them up with off()", () => {
+    const h = () => {};
+    dom(document).keys("mod+k", h, { desc: "Palette" });
+    dom("#panel").keys(["esc", "q"], () => {});
+    expect(shortcuts().map((s) => [s.keys, s.desc])).toEqual([
+      ["mod+k", "Palette"],
+      ["esc, q", undefined],
+    ]);
+    dom(document).off("keydown", h);
+    expect(shortcuts().map((s) => s.keys)).toEqual(["esc, q"]);
+    dom("#panel").off(".keys");
+    expect(shortcuts()).toEqual([]);
+  });
+});
+
+describe("trap() & rove() — focus management", () => {
+  const tab = (shiftKey = false) => {
+    const ev = new KeyboardEvent("keydown", {
+      key: "Tab",
+      shiftKey,
+      bubbles: true,
+      cancelable: true,
+    });
+    (document.activeElement ?? document.body).dispatchEvent(ev);
+    return ev;
+  };
+  const key = (key: string) =>
+    document.activeElement!.dispatchEvent(
+      new KeyboardEvent("keydown", { key, bubbles: true, cancelable: true }),
+    );
+  const active = () => document.activeElement?.id;
+
+  beforeEach(() => {
+    document.body.innerHTML = `
+      <button id="opener">open</button>
+      <div id="dlg">
+        <input id="name">
+        <button id="x" disabled>x</button>
+        <a id="nolink">plain</a>
+        <div id="ce" contenteditable></div>
+        <input type="radio" name="r" id="r1"><input type="radio" name="r" id="r2" checked>
+        <button id="ok">ok</button>
+        <span id="first" tabindex="1">first</span>
+      </div>
+      <div id="bar" role="toolbar"><button id="t1">1</button><button id="t2" aria-selected="true">2</button><button id="t3">3</button></div>`;
+    document.getElementById("opener")!.focus();
+  });
+  afterEach(() => {
+    dom("#dlg, #bar").off();
+  });
+
+  it("tabbable() lists focus stops in Tab order", () => {
+    expect(
+      dom("#dlg")
+        .tabbable()
+        .map((el) => el.id),
+    ).toEqual(["first", "name", "ce", "r2", "ok"]);
+  });
+
+  it("wraps Tab/Shift+Tab inside the trap and restores focus on release", () => {
+    const release = dom("#dlg").trap();
+    expect(active()).toBe("first");
+    document.getElementById("ok")!.focus();
+    expect(tab().defaultPrevented).toBe(true);
+    expect(active()).toBe("first");
+    expect(tab(true).defaultPrevented).toBe(true);
+    expect(active()).toBe("ok");
+    document.getElementById("name")!.focus();
+    expect(tab().defaultPrevented).toBe(false); // browser moves within the trap
+    document.getElementById("opener")!.focus(); // escaped: pulled back
+    expect(active()).toBe("first");
+    release();
+    expect(active()).toBe("opener");
+  });
+
+  it("honours initial focus, nests, and releases through off()", () => {
+    dom("#dlg").trap({ initial: "#ok" });
+    expect(active()).toBe("ok");
+    const inner = dom("#bar").trap();
+    expect(active()).toBe("t1");
+    document.getElementById("name")!.focus();
+    expect(active()).toBe("t1"); // the inner trap wins
+    inner();
+    expect(active()).toBe("ok");
+    dom("#dlg").off(".trap");
+    expect(active()).toBe("opener");
+  });
+
+  it("rove() keeps one tab stop and moves with arrows/Home/End", () => {
+    dom("#bar").rove("button", { orientation: "horizontal" });
+    const stops = () =>
+      dom("#bar button").map((b) => b.getAttribute("tabindex"));
+    expect(stops()).toEqual(["-1", "0", "-1"]);
+    document.getElementById("t2")!.focus();
+    key("ArrowRight");
+    expect(active()).toBe("t3");
+    expect(stops()).toEqual(["-1", "-1", "0"]);
+    key("ArrowRight"); // loops
+    expect(active()).toBe("t1");
+    key("ArrowDown"); // not this orientation
+    expect(active()).toBe("t1");
+    key("End");
+    expect(active()).toBe("t3");
+    key("Home");
+    expect(active()).toBe("t1");
+    document.getElementById("t2")!.focus(); // focus by mouse moves the stop too
+    expect(stops()).toEqual(["-1", "0", "-1"]);
+    dom("#bar").off(".rove");
+    key("ArrowRight");
+    expect(active()).toBe("t2");
+  });
+});
+
+describe("traversal & set operations", () => {
+  const ids = (d: Dom) => d.map((el) => el.id);
+
+  beforeEach(() => {
+    document.body.innerHTML = `
+      <div id="side" class="panel">
+        <ul id="list" class="panel">
+          <li id="a" class="done"><b id="ab">a</b></li>
+          <li id="b">b</li>
+          <li id="c" class="done active">c</li>
+          <li id="d">d</li>
+        </ul>
+      </div>
+      <article id="doc">
+        <h2 id="h1"></h2><p id="p1"></p><span id="s1"></span><p id="p2"></p>
+        <h2 id="h2"></h2><p id="p3"></p>
+      </article>`;
+  });
+
+  it("find() dedupes overlapping sets in document order", () => {
+    expect(ids(dom("#side, #list").find("li"))).toEqual(["a", "b", "c", "d"]);
+    expect(ids(dom("#d, #a").up("ul"))).toEqual(["list"]);
+  });
+
+  it("parent(), children(), next() and prev()", () => {
+    expect(ids(dom("li").parent())).toEqual(["list"]);
+    expect(ids(dom("li").parent("div"))).toEqual([]);
+    expect(ids(dom("#list").children(".done"))).toEqual(["a", "c"]);
+    expect(ids(dom("#c, #a").next())).toEqual(["b", "d"]);
+    expect(ids(dom("#a").next(".done"))).toEqual([]);
+    expect(ids(dom("#d").prev())).toEqual(["c"]);
+    expect(ids(dom("#h1").next("p", "h2"))).toEqual(["p1", "p2"]);
+    expect(ids(dom("#h1").next(undefined, "h2"))).toEqual(["p1", "s1", "p2"]);
+    expect(ids(dom("#h2").prev("", "#p1"))).toEqual(["s1", "p2"]);
+  });
+
+  it("near() with direction and up() bounded by a container", () => {
+    expect(ids(dom("#b").near("li"))).toEqual(["a", "c", "d"]);
+    expect(ids(dom("#b").near("li", "after"))).toEqual(["c", "d"]);
+    expect(ids(dom("#c").near(".done", "before"))).toEqual(["a"]);
+    expect(ids(dom("#ab").up(".panel"))).toEqual(["list"]);
+    expect(ids(dom("#ab").up("div"))).toEqual(["side"]);
+    expect(ids(dom("#ab").up("div", "#list"))).toEqual([]);
+    expect(ids(dom("#ab").up("li", "#list"))).toEqual(["a"]);
+  });
+
+  it("filter(), not(), is() and index()", () => {
+    const $li = dom("li");
+    expect(ids($li.filter(".done"))).toEqual(["a", "c"]);
+    expect(ids($li.filter((_, i) => i % 2 === 1))).toEqual(["b", "d"]);
+    expect(ids($li.not(".done"))).toEqual(["b", "d"]);
+    expect(ids($li.not(dom("#b, #d")))).toEqual(["a", "c"]);
+    expect($li.is(".active")).toBe(true);
+    expect($li.is("p")).toBe(false);
+    expect(dom("#c").index()).toBe(2);
+    expect($li.index(".done")).toBe(0);
+    expect($li.index(document.getElementById("d")!)).toBe(3);
+    expect($li.index(dom("#nope"))).toBe(-1);
+  });
+
+  it("slice() and union()", () => {
+    expect(ids(dom("li").slice(1, 3))).toEqual(["b", "c"]);
+    expect(ids(dom("li").slice(-1))).toEqual(["d"]);
+    expect(ids(dom("#d, #b").union("#a", dom("#b, #h1")))).toEqual([
+      "a",
+      "b",
+      "d",
+      "h1",
+    ]);
+    expect(dom(document).union("#a").list).toEqual([
+      document,
+      document.getElementById("a"),
+    ]);
+  });
+});
+
+describe("Dom<T> — element typing", () => {
+  beforeEach(() => {
+    document.body.innerHTML = `<form id="f"><input name="a" value="1"><select name="s"><option>x</option></select></form><div id="d"></div>`;
+  });
+
+  it("infers element types from tag selectors and make()", () => {
+    const $in = dom("input");
+    expectTypeOf($in).toEqualTypeOf<Dom<HTMLInputElement>>();
+    expectTypeOf($in.first).toEqualTypeOf<HTMLInputElement | undefined>();
+    expectTypeOf(make("canvas")).toEqualTypeOf<Dom<HTMLCanvasElement>>();
+    expectTypeOf(dom("#f").find("select")).toEqualTypeOf<
+      Dom<HTMLSelectElement>
+    >();
+    expectTypeOf(dom("#d")).toEqualTypeOf<Dom>();
+    expectTypeOf(dom(document)).toEqualTypeOf<Dom<Document>>();
+    expect($in.first?.value).toBe("1");
+    expect(make("canvas").first?.localName).toBe("canvas");
+  });
+
+  it("types each/map callbacks and keeps T through filters", () => {
+    const $in = dom("input");
+    $in.each((el) => expectTypeOf(el).toEqualTypeOf<HTMLInputElement>());
+    expect($in.map((el) => el.name)).toEqual(["a"]);
+    expectTypeOf($in.filter("[name]")).toEqualTypeOf<Dom<HTMLInputElement>>();
+    expectTypeOf($in.slice(0)).toEqualTypeOf<Dom<HTMLInputElement>>();
+  });
+
+  it("val() is a string for controls, string | null otherwise", () => {
+    expectTypeOf(dom("input").val()).toEqualTypeOf<string>();
+    expectTypeOf(dom("#d").val()).toEqualTypeOf<string | null>();
+    expect(dom("select").val()).toBe("x");
+    expect(dom("#d").val()).toBe(null);
+    expect(dom("textarea").val()).toBe("");
+  });
+});
+
+describe("shadow DOM & fragments", () => {
+  let host: HTMLElement;
+  let shadow: ShadowRoot;
+
+  beforeEach(() => {
+    document.body.innerHTML = `<x-app id="app"><p class="btn" id="light">light</p></x-app>`;
+    host = document.getElementById("app")!;
+    shadow = host.attachShadow({ mode: "open" });
+    shadow.innerHTML = `<button class="btn" id="s1">s1</button><x-card id="card"></x-card>`;
+    const inner = shadow.getElementById("card")!.attachShadow({ mode: "open" });
+    inner.innerHTML = `<span class="btn title" id="s2"><i id="icon"></i></span>`;
+  });
+  afterEach(() => {
+    dom("#app").off();
+  });
+
+  it("accepts ShadowRoot and DocumentFragment as inputs and roots", () => {
+    expect(dom(shadow).length).toBe(1);
+    expect(
+      dom(shadow)
+        .find(".btn")
+        .map((el) => el.id),
+    ).toEqual(["s1"]);
+    expect(dom(".btn", shadow).map((el) => el.id)).toEqual(["s1"]);
+    const frag = document.createDocumentFragment();
+    frag.append(make("<i class='x'></i><b class='x'></b>").first!);
+    expect(dom(frag).find(".x").length).toBe(1);
+    expect(dom(".x", frag).length).toBe(1);
+  });
+
+  it("deep() and >>> pierce open shadow roots", () => {
+    expect(
+      dom("#app")
+        .find(".btn")
+        .map((el) => el.id),
+    ).toEqual(["light"]);
+    expect(
+      dom("#app")
+        .deep(".btn")
+        .map((el) => el.id),
+    ).toEqual(["s1", "s2", "light"]);
+    expect(dom("#app").find(">>> .btn").length).toBe(3);
+    expect(
+      dom(document)
+        .find("#app >>> x-card >>> .title")
+        .map((el) => el.id),
+    ).toEqual(["s2"]);
+  });
+
+  it("host() walks out to shadow hosts", () => {
+    const $s2 = dom(".title", shadow.getElementById("card")!.shadowRoot!);
+    expect($s2.host().map((el) => el.id)).toEqual(["card"]);
+    expect($s2.host("x-app").map((el) => el.id)).toEqual(["app"]);
+    expect(
+      dom(shadow)
+        .host()
+        .map((el) => el.id),
+    ).toEqual(["app"]);
+    expect(dom("#light").host().length).toBe(0);
+  });
+
+  it("deep() and host() return elements in document order", () => {
+    const card = shadow.getElementById("card")!;
+    const s2 = card.shadowRoot!.getElementById("s2")!;
+    expect(
+      dom([card, host])
+        .deep(".btn")
+        .map((el) => el.id),
+    ).toEqual(["s1", "s2", "light"]);
+    expect(
+      dom([s2, shadow.getElementById("s1")!])
+        .host()
+        .map((el) => el.id),
+    ).toEqual(["app", "card"]);
+  });
+
+  it("onD() delegates across shadow boundaries via composedPath()", () => {
+    const hits: string[] = [];
+    dom("#app").onD("click", ".btn", (_, el) => hits.push(el.id));
+    dom(document)
+      .find(">>> #icon")
+      .first!.dispatchEvent(
+        new MouseEvent("click", { bubbles: true, composed: true }),
+      );
+    (shadow.getElementById("s1") as HTMLElement).click();
+    document.getElementById("light")!.click();
+    expect(hits).toEqual(["s2", "s1", "light"]);
+  });
+});
+
+describe("measure() & mutate() — frame scheduler", () => {
+  let frames: (() => void)[] = [];
+  const frame = () => frames.splice(0).forEach((cb) => cb());
+
+  beforeEach(() => {
+    frames = [];
+    vi.stubGlobal("requestAnimationFrame", (cb: () => void) => frames.push(cb));
+  });
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("runs all reads before all writes in one frame", async () => {
+    const log: string[] = [];
+    const w1 = mutate(() => log.push("w1"));
+    const r1 = measure(() => (log.push("r1"), 10));
+    dom.mutate(() => log.push("w2"));
+    dom.measure(() => log.push("r2"));
+    expect(log).toEqual([]);
+    expect(frames.length).toBe(1);
+    frame();
+    expect(log).toEqual(["r1", "r2", "w1", "w2"]);
+    expect(await r1).toBe(10);
+    expect(await w1).toBe(3); // push() → new length
+    expect(frames.length).toBe(0);
+  });
+
+  it("lets reads queue writes for the same frame, defers the rest", () => {
+    const log: string[] = [];
+    measure(() => {
+      log.push("read");
+      mutate(() => {
+        log.push("write");
+        measure(() => log.push("late read"));
+        mutate(() => log.push("late write"));
+      });
+    });
+    frame();
+    expect(log).toEqual(["read", "write"]);
+    expect(frames.length).toBe(1);
+    frame();
+    expect(log).toEqual(["read", "write", "late read", "late write"]);
+  });
+
+  it("rejects a failing task without stopping the others", async () => {
+    const bad = measure(() => {
+      throw new Error("boom");
+    });
+    const ok = mutate(() => "fine");
+    frame();
+    await expect(bad).rejects.toThrow("boom");
+    await expect(ok).resolves.toBe("fine");
+  });
+});
+
+describe("geometry — offset, size, inView, scrollTo, reveal", () => {
+  const rect = (
+    el: Element,
+    r: { top: number; left: number; width: number; height: number },
+  ) =>
+    (el.getBoundingClientRect = () =>
+      ({
+        ...r,
+        x: r.left,
+        y: r.top,
+        right: r.left + r.width,
+        bottom: r.top + r.height,
+      }) as DOMRect);
+  const offsetSize = (el: Element, width: number, height: number) => {
+    Object.defineProperty(el, "offsetWidth", { value: width });
+    Object.defineProperty(el, "offsetHeight", { value: height });
+  };
+  let box: HTMLElement;
+  let list: HTMLElement;
+  let item: HTMLElement;
+
+  beforeEach(() => {
+    document.body.innerHTML = `
+      <div id="box" style="padding: 10px 5px; border: 2px solid; margin: 4px 8px"></div>
+      <div id="list" style="overflow: auto"><p id="item">x</p></div>`;
+    box = document.getElementById("box")!;
+    list = document.getElementById("list")!;
+    item = document.getElementById("item")!;
+    window.scrollTo({ top: 0, left: 0 });
+  });
+  afterEach(() => window.scrollTo({ top: 0, left: 0 }));
+
+  it("offset() is relative to the document", () => {
+    rect(box, { top: 30, left: 20, width: 10, height: 10 });
+    window.scrollTo({ top: 100, left: 5 });
+    expect(dom("#box").offset()).toEqual({ top: 130, left: 25 });
+    expect(dom(window).offset()).toEqual({ top: 0, left: 0 });
+    expect(dom("#nope").offset()).toBe(null);
+  });
+
+  it("size() reads every box", () => {
+    offsetSize(box, 114, 44); // content 100x20 + padding + border
+    expect(dom("#box").size()).toEqual({ width: 114, height: 44 });
+    expect(dom("#box").size("padding")).toEqual({ width: 110, height: 40 });
+    expect(dom("#box").size("content")).toEqual({ width: 100, height: 20 });
+    expect(dom("#box").size("margin")).toEqual({ width: 130, height: 52 });
+    expect(dom(window).size()).toEqual({
+      width: window.innerWidth,
+      height: window.innerHeight,
+    });
+  });
+
+  it("size() sets the requested box for either box-sizing", () => {
+    dom("#box").size({ width: 100, height: 20 }, "content");
+    expect(box.style.width).toBe("100px");
+    expect(box.style.height).toBe("20px");
+    dom("#box").size({ width: 130 }, "margin");
+    expect(box.style.width).toBe("100px");
+    dom("#box").css("boxSizing", "border-box").size({ width: 100 }, "content");
+    expect(box.style.width).toBe("114px");
+    dom("#box").size({ height: 44 });
+    expect(box.style.height).toBe("44px");
+  });
+
+  it("inView() checks the visible ratio against the viewport or a scroller", () => {
+    rect(box, {
+      top: window.innerHeight - 25,
+      left: 0,
+      width: 100,
+      height: 100,
+    });
+    expect(dom("#box").inView()).toBe(true);
+    expect(dom("#box").inView(0.25)).toBe(true);
+    expect(dom("#box").inView(0.5)).toBe(false);
+    rect(box, {
+      top: window.innerHeight + 1,
+      left: 0,
+      width: 100,
+      height: 100,
+    });
+    expect(dom("#box").inView()).toBe(false);
+    rect(list, { top: 0, left: 0, width: 200, height: 100 });
+    rect(item, { top: 150, left: 0, width: 200, height: 20 });
+    expect(dom("#item").inView(0, "#list")).toBe(false);
+    expect(dom("#item").inView(1)).toBe(true);
+  });
+
+  it("scrollTo() handles window, document and element scrollers alike", () => {
+    dom(window).scrollTo(120);
+    expect(window.scrollY).toBe(120);
+    dom(document).scrollTo({ top: 40, left: 7 });
+    expect([window.scrollY, window.scrollX]).toEqual([40, 7]);
+    expect(dom(document).top()).toBe(40);
+
+    rect(box, { top: 300, left: 0, width: 10, height: 10 }); // viewport coords
+    dom(window).scrollTo("#box", { offset: 50 });
+    expect(window.scrollY).toBe(290); // 40 + 300 - 50
+
+    rect(list, { top: 100, left: 0, width: 200, height: 100 });
+    rect(item, { top: 400, left: 0, width: 200, height: 20 });
+    list.scrollTop = 20;
+    dom("#list").scrollTo(item, { offset: { top: 10 } });
+    expect(list.scrollTop).toBe(310); // 400 - 100 + 20 - 10
+    dom("#list").scrollTo(5);
+    expect(dom("#list").top()).toBe(5);
+
+    const y = window.scrollY;
+    dom(window).scrollTo(item, { container: "#list" });
+    expect(list.scrollTop).toBe(305); // 400 - 100 + 5
+    expect(window.scrollY).toBe(y);
+  });
+
+  it("reveal() scrolls only as far as needed", () => {
+    rect(list, { top: 0, left: 0, width: 200, height: 100 });
+    rect(item, { top: 150, left: 0, width: 200, height: 20 });
+    dom("#item").reveal({ container: list });
+    expect(list.scrollTop).toBe(70); // bottom edge lines up
+    list.scrollTop = 0;
+    dom("#item").reveal(); // nearest scrollable ancestor
+    expect(list.scrollTop).toBe(70);
+    list.scrollTop = 0;
+    dom("#item").reveal({ container: "#list", align: "start", offset: 10 });
+    expect(list.scrollTop).toBe(140);
+    rect(item, { top: 20, left: 0, width: 200, height: 20 });
+    list.scrollTop = 0;
+    dom("#item").reveal({ container: list });
+    expect(list.scrollTop).toBe(0); // already visible
+  });
+});
+
+describe("gestures — drag, sortable, swipe, pinch", () => {
+  const rect = (
+    el: Element,
+    r: { top: number; left: number; width: number; height: number },
+  ) =>
+    (el.getBoundingClientRect = () =>
+      ({
+        ...r,
+        x: r.left,
+        y: r.top,
+        right: r.left + r.width,
+        bottom: r.top + r.height,
+      }) as DOMRect);
+  const ptr = (
+    target: EventTarget,
+    type: string,
+    x: number,
+    y: number,
+    pointerId = 1,
+  ) =>
+    target.dispatchEvent(
+      new PointerEvent(type, {
+        bubbles: true,
+        cancelable: true,
+        clientX: x,
+        clientY: y,
+        pointerId,
+      }),
+    );
+
+  beforeEach(() => {
+    document.body.innerHTML = `
+      <div id="area"><div id="box"><i class="grip"></i><b>x</b></div></div>
+      <ul id="list"><li>a</li><li>b</li><li>c</li></ul>`;
+  });
+
+  it("drag() moves by translate and reports deltas", () => {
+    const box = dom("#box").first as HTMLElement;
+    const moves: [number, number, number, number][] = [];
+    const ends: number[] = [];
+    dom(box).drag({
+      onMove: ({ x, y, dx, dy }) => moves.push([x, y, dx, dy]),
+      onEnd: ({ x }) => ends.push(x),
+    });
+    expect(box.style.touchAction).toBe("none");
+    ptr(box, "pointerdown", 10, 10);
+    ptr(document, "pointermove", 30, 15);
+    ptr(document, "pointerup", 30, 15);
+    expect(box.style.transform).toBe("translate(20px, 5px)");
+    // a second drag continues from where the last one stopped
+    ptr(box, "pointerdown", 0, 0);
+    ptr(document, "pointermove", 5, 5);
+    ptr(document, "pointerup", 5, 5);
+    ptr(document, "pointermove", 50, 50); // released: ignored
+    expect(moves).toEqual([
+      [20, 5, 20, 5],
+      [25, 10, 5, 5],
+    ]);
+    expect(ends).toEqual([20, 25]);
+  });
+
+  it("drag() honours axis, grid, handle and bounds", () => {
+    const box = dom("#box").first as HTMLElement;
+    rect(dom("#area").first!, { top: 0, left: 0, width: 100, height: 100 });
+    rect(box, { top: 10, left: 10, width: 20, height: 20 });
+    dom(box).drag({ axis: "x", grid: 10, handle: ".grip", bounds: "parent" });
+    ptr(dom("b").first!, "pointerdown", 0, 0); // not the handle
+    ptr(document, "pointermove", 40, 40);
+    expect(box.style.transform).toBe("");
+    ptr(document, "pointerup", 40, 40);
+
+    ptr(dom(".grip").first!, "pointerdown", 0, 0);
+    ptr(document, "pointermove", 34, 40);
+    expect(box.style.transform).toBe("translate(30px, 0px)");
+    ptr(document, "pointermove", 500, 0);
+    expect(box.style.transform).toBe("translate(70px, 0px)"); // clamped
+    ptr(document, "pointermove", -500, 0);
+    expect(box.style.transform).toBe("translate(-10px, 0px)");
+    ptr(document, "pointerup", 0, 0);
+
+    dom(box).off("drag");
+    ptr(dom(".grip").first!, "pointerdown", 0, 0);
+    ptr(document, "pointermove", 20, 0);
+    expect(box.style.transform).toBe("translate(-10px, 0px)");
+  });
+
+  it("sortable() reorders by pointer against item midpoints", () => {
+    const list = dom("#list");
+    const lis = list.children().list;
+    lis.forEach((li, i) =>
+      rect(li, { top: i * 20, left: 0, width: 100, height: 20 }),
+    );
+    const sorts: [string, number, number][] = [];
+    list.sortable({
+      onSort: ({ item, from, to }) => sorts.push([item.textContent!, from, to]),
+    });
+    expect(lis.every((li) => li.getAttribute("tabindex") === "0")).toBe(true);
+    ptr(lis[0], "pointerdown", 5, 5);
+    ptr(document, "pointermove", 5, 7); // under the threshold
+    expect(lis[0].classList.contains("sorting")).toBe(false);
+    ptr(document, "pointermove", 5, 35); // past b's midpoint
+    expect(lis[0].classList.contains("sorting")).toBe(true);
+    expect(list.text()).toBe("bac");
+    ptr(document, "pointermove", 5, 55);
+    ptr(document, "pointerup", 5, 55);
+    expect(list.text()).toBe("bca");
+    expect(lis[0].classList.contains("sorting")).toBe(false);
+    expect(sorts).toEqual([["a", 0, 2]]);
+
+    // cancel puts the item back
+    ptr(lis[1], "pointerdown", 5, 5);
+    ptr(document, "pointermove", 5, 55);
+    ptr(document, "pointercancel", 5, 55);
+    expect(list.text()).toBe("bca");
+    expect(sorts.length).toBe(1);
+  });
+
+  it("sortable() leaves a press without movement to the page", () => {
+    document.body.innerHTML = `<ul id="list"><li><input /></li><li>b</li></ul>`;
+    const sorts: number[] = [];
+    dom("#list").sortable({ onSort: ({ to }) => sorts.push(to) });
+    const input = dom("input").first!;
+    const down = new PointerEvent("pointerdown", {
+      bubbles: true,
+      cancelable: true,
+      pointerId: 1,
+    });
+    input.dispatchEvent(down);
+    expect(down.defaultPrevented).toBe(false);
+    ptr(document, "pointerup", 0, 0);
+    expect(dom("li").first!.classList.contains("sorting")).toBe(false);
+    expect(sorts).toEqual([]);
+  });
+
+  it("sortable() reorders from the keyboard", () => {
+    const list = dom("#list");
+    const sorts: [number, number][] = [];
+    list.sortable({ onSort: ({ from, to }) => sorts.push([from, to]) });
+    const [a] = list.children().list as HTMLElement[];
+    const key = (k: string) =>
+      a.dispatchEvent(
+        new KeyboardEvent("keydown", {
+          key: k,
+          bubbles: true,
+          cancelable: true,
+        }),
+      );
+    key("ArrowDown"); // not grabbed yet
+    expect(list.text()).toBe("abc");
+    key(" ");
+    expect(a.getAttribute("aria-grabbed")).toBe("true");
+    key("ArrowDown");
+    key("ArrowDown");
+    key("ArrowDown"); // already last
+    expect(list.text()).toBe("bca");
+    key("Escape");
+    expect(list.text()).toBe("abc");
+    expect(sorts).toEqual([]);
+    key("Enter");
+    key("ArrowDown");
+    key("Enter");
+    expect(list.text()).toBe("bac");
+    expect(a.getAttribute("aria-grabbed")).toBe("false");
+    expect(sorts).toEqual([[0, 1]]);
+
+    list.off("sortable");
+    key(" ");
+    key("ArrowDown");
+    expect(list.text()).toBe("bac");
+  });
+
+  it("sortable() makes items added later focusable", async () => {
+    const list = dom("#list").sortable();
+    list.add(make("li").text("d"));
+    await Promise.resolve();
+    expect(dom("#list li:last-child").attr("tabindex")).toBe("0");
+    list.off("sortable");
+    list.add(make("li").text("e"));
+    await Promise.resolve();
+    expect(dom("#list li:last-child").attr("tabindex")).toBeNull();
+  });
+
+  it("swipe() reports direction past the threshold within the time", () => {
+    const area = dom("#area").first!;
+    const now = vi.spyOn(performance, "now").mockReturnValue(0);
+    const seen: string[] = [];
+    const cb = (s: { dir: string }) => seen.push(s.dir);
+    dom(area).swipe(cb, { threshold: 30, time: 300 });
+    const swipe = (dx: number, dy: number, ms = 100) => {
+      now.mockReturnValue(0);
+      ptr(area, "pointerdown", 100, 100);
+      now.mockReturnValue(ms);
+      ptr(document, "pointerup", 100 + dx, 100 + dy);
+    };
+    swipe(-40, 10);
+    swipe(5, 60);
+    swipe(20, 0); // too short
+    swipe(80, 0, 400); // too slow
+    expect(seen).toEqual(["left", "down"]);
+    dom(area).off("swipe", cb);
+    swipe(0, -80);
+    expect(seen).toEqual(["left", "down"]);
+    now.mockRestore();
+  });
+
+  it("swipe() and pinch() also emit events", () => {
+    const area = dom("#area").first!;
+    const seen: string[] = [];
+    dom(document.body)
+      .on("swipe", (ev) => seen.push(ev.detail.dir))
+      .on("pinch", (ev) => seen.push(`x${ev.detail.scale}`));
+    dom(area).swipe().pinch();
+    ptr(area, "pointerdown", 100, 100);
+    ptr(document, "pointerup", 20, 100);
+    ptr(area, "pointerdown", 0, 0, 1);
+    ptr(area, "pointerdown", 100, 0, 2);
+    ptr(document, "pointermove", 200, 0, 2);
+    ptr(document, "pointerup", 200, 0, 2);
+    ptr(document, "pointerup", 0, 0, 1);
+    expect(seen).toEqual(["left", "x2"]);
+    dom(document.body).off();
+    dom(area).off();
+  });
+
+  it("pinch() reports scale from two pointers", () => {
+    const area = dom("#area").first!;
+    const scales: number[] = [];
+    const mids: [number, number][] = [];
+    dom(area).pinch(({ scale, x, y }) => {
+      scales.push(scale);
+      mids.push([x, y]);
+    });
+    ptr(area, "pointerdown", 0, 0, 1);
+    ptr(area, "pointerdown", 100, 0, 2);
+    ptr(document, "pointermove", 102, 0, 2); // below threshold
+    ptr(document, "pointermove", 200, 0, 2);
+    ptr(document, "pointermove", 50, 0, 2);
+    ptr(document, "pointerup", 50, 0, 2);
+    ptr(document, "pointermove", 300, 0, 1);
+    expect(scales).toEqual([2, 0.5]);
+    expect(mids).toEqual([
+      [100, 0],
+      [25, 0],
+    ]);
+  });
+});
+
+describe("Dom.use() — plugins", () => {
+  const cleanups: (() => void)[] = [];
+  afterEach(() => cleanups.splice(0).forEach((u) => u()));
+
+  it("installs methods synchronously and uninstalls them", () => {
+    const log: string[] = [];
+    const uninstall = Dom.use({
+      name: "wiggle",
+      methods: {
+        wiggle(this: Dom, n: number) {
+          return this.attr("data-wiggle", String(n));
+        },
+      },
+      setup: () => () => log.push("teardown"),
+    });
+    document.body.innerHTML = `<p></p>`;
+    (dom("p") as any).wiggle(3);
+    expect(dom("p").attr("data-wiggle")).toBe("3");
+    expect(Object.keys(Dom.prototype)).not.toContain("wiggle");
+    uninstall();
+    uninstall();
+    expect("wiggle" in dom("p")).toBe(false);
+    expect(log).toEqual(["teardown"]);
+  });
+
+  it("rejects names already taken by core or another plugin", () => {
+    expect(() => Dom.use({ name: "bad", methods: { flip: () => 1 } })).toThrow(
+      /flip\(\).*Dom/,
+    );
+    const a = { name: "a", methods: { hop: () => 1 } };
+    cleanups.push(Dom.use(a));
+    expect(Dom.use(a)).toBe(Dom.use(a)); // same plugin: no-op
+    expect(() => Dom.use({ name: "b", methods: { hop: () => 2 } })).toThrow(
+      /hop\(\).*plugin "a"/,
+    );
+    expect(() => Dom.use({ name: "a" })).toThrow(/"a" is installed/);
+    expect("flip" in Dom.prototype && "bad" in Dom.prototype).toBe(false);
+  });
+});
+
+describe("transition() — enter/leave classes", () => {
+  let frames: (() => void)[] = [];
+  const frame = () => frames.splice(0).forEach((cb) => cb());
+  const cls = (el: Element) => Array.from(el.classList).sort().join(" ");
+  let box: HTMLElement;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    frames = [];
+    vi.stubGlobal("requestAnimationFrame", (cb: () => void) => frames.push(cb));
+    document.body.innerHTML = `<div id="box" style="display: none"><i></i></div>`;
+    box = document.getElementById("box")!;
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  it("runs the enter sequence on show() until transitionend", () => {
+    dom(box).transition("fade").show();
+    expect(box.style.display).toBe("");
+    expect(cls(box)).toBe("fade-enter-active fade-enter-from");
+    frame();
+    frame();
+    expect(cls(box)).toBe("fade-enter-active fade-enter-to");
+    box.firstElementChild!.dispatchEvent(
+      new Event("transitionend", { bubbles: true }),
+    ); // a descendant's transition
+    expect(cls(box)).toBe("fade-enter-active fade-enter-to");
+    box.dispatchEvent(new Event("transitionend"));
+    expect(cls(box)).toBe("");
+    dom(box).show(); // already visible: no enter
+    expect(cls(box)).toBe("");
+  });
+
+  it("hides and removes only after the leave sequence", () => {
+    const d = dom(box).transition("fade", { duration: 200 }).css("display", "");
+    d.hide();
+    expect(cls(box)).toBe("fade-leave-active fade-leave-from");
+    frame();
+    frame();
+    expect(cls(box)).toBe("fade-leave-active fade-leave-to");
+    expect(box.style.display).toBe("");
+    vi.advanceTimersByTime(200); // no transitionend: duration fallback
+    expect(box.style.display).toBe("none");
+    expect(cls(box)).toBe("");
+
+    d.show();
+    frame();
+    frame();
+    box.dispatchEvent(new Event("animationend"));
+    d.rm();
+    expect(box.isConnected).toBe(true);
+    frame();
+    frame();
+    box.dispatchEvent(new Event("animationend"));
+    expect(box.isConnected).toBe(false);
+  });
+
+  it("show() during a leave cancels the hide", () => {
+    const d = dom(box).transition("fade", { duration: 200 }).css("display", "");
+    d.hide();
+    frame();
+    d.show();
+    expect(cls(box)).toBe("fade-enter-active fade-enter-from");
+    frame();
+    frame();
+    vi.advanceTimersByTime(500);
+    expect(box.style.display).toBe("");
+    expect(cls(box)).toBe("");
+  });
+
+  it("enters nodes inserted by add()/pre() and toggles with flip()", () => {
+    const a = make("p").transition("slide");
+    const b = make("p").transition("slide");
+    dom(box).add(a).pre(b);
+    expect(a.first!.className).toBe("slide-enter-from slide-enter-active");
+    expect(b.first!.className).toBe("slide-enter-from slide-enter-active");
+    frame();
+    frame();
+    vi.runAllTimers();
+    expect(a.first!.className).toBe("");
+
+    a.first!.toggleAttribute("hidden", false);
+    a.flip();
+    expect(a.first!.hidden).toBe(false);
+    expect(a.first!.className).toBe("slide-leave-from slide-leave-active");
+    frame();
+    frame();
+    vi.runAllTimers();
+    expect(a.first!.hidden).toBe(true);
+    a.transition(null).flip();
+    expect(a.first!.hidden).toBe(false);
+    expect(a.first!.className).toBe("");
+  });
+
+  it("leaves elements without transition() untouched", () => {
+    dom(box).show().hide();
+    expect(box.style.display).toBe("none");
+    expect(frames.length).toBe(0);
+    dom(box).rm();
+    expect(box.isConnected).toBe(false);
+  });
+});
+
+describe("caret & selection", () => {
+  let input: HTMLInputElement;
+  let ed: HTMLElement;
+
+  beforeEach(() => {
+    document.body.innerHTML = `
+      <input id="in" value="hello world">
+      <input id="mail" type="email" value="a@b.c">
+      <div id="ed" contenteditable>ab<b>cd</b>ef</div>`;
+    input = document.getElementById("in") as HTMLInputElement;
+    ed = document.getElementById("ed")!;
+  });
+
+  it("reads and sets the caret and selection of inputs", () => {
+    dom(input).caret(5);
+    expect(dom(input).caret()).toBe(5);
+    expect(dom(input).select(6).selection()).toEqual({
+      start: 6,
+      end: 11,
+      text: "world",
+    });
+    dom(input).select(0, 99);
+    expect(dom(input).selection().text).toBe("hello world");
+    dom(input).caret(-3);
+    expect(dom(input).caret()).toBe(0);
+    expect(dom("#mail").caret(1).caret()).toBe(5); // no selection API
+    expect(dom().caret()).toBe(0);
+  });
+
+  it("insert() replaces the selection and fires input events", () => {
+    const events: string[] = [];
+    input.addEventListener("beforeinput", (e) =>
+      events.push(`before:${(e as InputEvent).data}`),
+    );
+    input.addEventListener("input", (e) =>
+      events.push(`${(e as InputEvent).inputType}:${input.value}`),
+    );
+    dom(input).select(6, 11).insert("there");
+    expect(input.value).toBe("hello there");
+    expect(dom(input).caret()).toBe(11);
+    dom(input).caret(5).insert(",");
+    expect(dom(input).selection()).toEqual({ start: 6, end: 6, text: "" });
+    expect(events).toEqual([
+      "before:there",
+      "insertText:hello there",
+      "before:,",
+      "insertText:hello, there",
+    ]);
+
+    input.addEventListener("beforeinput", (e) => e.preventDefault());
+    dom(input).insert("!");
+    expect(input.value).toBe("hello, there");
+  });
+
+  it("works on contenteditable text across nodes", () => {
+    dom(ed).select(1, 4);
+    expect(dom(ed).selection()).toEqual({ start: 1, end: 4, text: "bcd" });
+    expect(document.getSelection()!.toString()).toBe("bcd");
+    dom(ed).caret(3);
+    expect(dom(ed).caret()).toBe(3);
+
+    let fired = 0;
+    ed.addEventListener("input", () => fired++);
+    dom(ed).select(2, 4).insert("XY");
+    expect(ed.textContent).toBe("abXYef");
+    expect(dom(ed).caret()).toBe(4);
+    dom(ed).insert("!");
+    expect(ed.textContent).toBe("abXY!ef");
+    expect(fired).toBe(2);
+
+    document.getSelection()!.removeAllRanges(); // outside: insert at the end
+    expect(dom(ed).selection()).toEqual({ start: 7, end: 7, text: "" });
+    dom(ed).insert("?");
+    expect(ed.textContent).toBe("abXY!ef?");
+  });
+
+  it("caretRect() measures inputs on a mirror and ranges directly", () => {
+    const rects = vi
+      .spyOn(HTMLElement.prototype, "getBoundingClientRect")
+      .mockImplementation(function (this: HTMLElement) {
+        const r =
+          this === input
+            ? { top: 100, left: 50, height: 20 }
+            : this.tagName === "SPAN"
+              ? { top: 4, left: 30, height: 16 }
+              : { top: 0, left: 0, height: 0 };
+        return {
+          ...r,
+          width: 0,
+          right: r.left,
+          bottom: r.top + r.height,
+        } as DOMRect;
+      });
+    dom(input).caret(3);
+    expect(dom(input).caretRect()).toEqual({ top: 104, left: 80, height: 16 });
+    expect(document.querySelectorAll("div").length).toBe(1); // mirror removed
+
+    expect(dom(ed).caretRect()).toBeNull(); // no selection inside
+    const range = vi
+      .spyOn(Range.prototype, "getBoundingClientRect")
+      .mockReturnValue({ top: 10, left: 20, height: 18 } as DOMRect);
+    dom(ed).caret(2);
+    expect(dom(ed).caretRect()).toEqual({ top: 10, left: 20, height: 18 });
+    range.mockRestore();
+    rects.mockRestore();
+  });
+});
+
+describe("aria(), role() & announce()", () => {
+  beforeEach(() => {
+    document.body.innerHTML = `
+      <button id="btn" aria-pressed="mixed">Menu</button>
+      <ul id="menu" role="menu"><li role="menuitem">A</li><li>B</li></ul>
+      <nav><a href="/">Home</a><a>plain</a><span role="link">x</span></nav>
+      <input id="q"><input type="checkbox" role="switch">`;
+  });
+
+  it("writes booleans, numbers and id references", () => {
+    const menu = dom("#menu").first!;
+    const li = dom("li").list;
+    dom("#btn").aria({
+      expanded: false,
+      controls: menu,
+      describedby: ["hint", li[1]],
+      level: 2,
+      label: "Open menu",
+      haspopup: "menu",
+    });
+    const btn = dom("#btn").first!;
+    expect(btn.getAttribute("aria-expanded")).toBe("false");
+    expect(btn.getAttribute("aria-controls")).toBe("menu");
+    expect(btn.getAttribute("aria-describedby")).toMatch(/^hint mw-\d+$/);
+    expect(li[1].id).toBe(btn.getAttribute("aria-describedby")!.split(" ")[1]);
+    dom("#btn").aria("label", null);
+    expect(btn.hasAttribute("aria-label")).toBe(false);
+  });
+
+  it("reads typed values back", () => {
+    const b = dom("#btn").aria({
+      expanded: true,
+      controls: "menu other",
+      level: 3,
+      current: "page",
+      invalid: false,
+    });
+    expect(b.aria("expanded")).toBe(true);
+    expect(b.aria("controls")).toEqual(["menu", "other"]);
+    expect(b.aria("level")).toBe(3);
+    expect(b.aria("pressed")).toBe("mixed");
+    expect(b.aria("current")).toBe("page");
+    expect(b.aria("invalid")).toBe(false);
+    expect(b.aria("hidden")).toBeNull();
+    expect(dom().aria("label")).toBeNull();
+    expectTypeOf(b.aria("expanded")).toEqualTypeOf<boolean | null>();
+    expectTypeOf(b.aria("controls")).toEqualTypeOf<string[] | null>();
+  });
+
+  it("role() reads and queries explicit and implicit roles", () => {
+    expect(dom("#btn").role()).toBe("button");
+    expect(dom("#menu").role()).toBe("menu");
+    expect(dom("input[type=checkbox]").role()).toBe("switch");
+    expect(dom("#q").role()).toBe("textbox");
+    expect(dom("li").at(1).role()).toBe("listitem");
+    expect(dom("nav").role("link").text()).toBe("Home");
+    expect(dom("nav").role("link").length).toBe(2);
+    expect(dom(document.body).role("button").length).toBe(1);
+    expect(dom(document.body).role("checkbox").length).toBe(0); // role="switch"
+    expect(dom("#menu").role("menuitem").length).toBe(1);
+  });
+
+  it("announce() uses one live region per politeness", () => {
+    vi.useFakeTimers();
+    announce("Saved");
+    const region = document.querySelector("[aria-live=polite]")!;
+    expect(region.getAttribute("role")).toBe("status");
+    expect(region.textContent).toBe("");
+    vi.advanceTimersByTime(100);
+    expect(region.textContent).toBe("Saved");
+    announce("Saved");
+    expect(region.textContent).toBe(""); // cleared so it is read again
+    announce("Saved twice");
+    vi.advanceTimersByTime(100);
+    expect(region.textContent).toBe("Saved twice");
+    announce("Failed", { politeness: "assertive" });
+    vi.advanceTimersByTime(100);
+    expect(document.querySelectorAll("[aria-live]").length).toBe(2);
+    expect(document.querySelector("[role=alert]")!.textContent).toBe("Failed");
+    vi.useRealTimers();
+  });
+});
@@ -0,0 +1,106 @@
+// @vitest-environment node
+import { describe, it, expect } from "vitest";
+import { Window } from "happy-dom";
+
+describe("createDom() — injectable document", () => {
+  it("imports without a global document", async () => {
+    expect(typeof document).toBe("undefined");
+    const { dom, Dom } = await import("../index");
+    await Promise.all([
+      import("../fx"),
+      import("../store"),
+      import("../net"),
+      import("../validate"),
+      import("../element"),
+    ]);
+    expect(dom().length).toBe(0);
+    expect(new Dom([]).outer()).toBe("");
+    expect(() => dom("p")).toThrow(/createDom/);
+  });
+
+  it("renders and serializes markup in a server document", async () => {
+    const { createDom } = await import("../index");
+    const win = new Window();
+    const { dom, make, html, sanitize } = createDom({
+      document: win.document as unknown as Document,
+    });
+    const items = ["a", "<b>"];
+    const list = make("ul", { class: "list" }).add(
+      html`${items.map((i) => html`<li title=${i}>${i}</li>`)}`,
+    );
+    expect(list.first!.ownerDocument).toBe(win.document);
+    expect(list.outer()).toBe(
+      '<ul class="list"><li title="a">a</li><li title="<b>">&lt;b&gt;</li></ul>',
+    );
+    expect(`${list}`).toBe(list.outer());
+    expect(make("<p onclick='x()'>hi</p>").toString()).toBe("<p>hi</p>");
+    expect(sanitize("<img src=x onerror=alert(1)>")).toBe('<img src="x">');
+
+    dom(win.document.body).add(list);
+    expect(dom("li").length).toBe(2);
+    expect(list.root("li").length).toBe(2);
+    expect(list.root().first).toBe(win.document);
+    expect(dom(win.document).outer()).toBe(
+      '<html><head></head><body><ul class="list"><li title="a">a</li><li title="<b>">&lt;b&gt;</li></ul></body></html>',
+    );
+
+    let got: unknown;
+    list.on("ping" as any, (e: Event) => (got = (e as CustomEvent).detail));
+    list.emit("ping", 7);
+    expect(got).toBe(7);
+    await win.happyDOM.close();
+  });
+
+  it("keeps separate documents apart", async () => {
+    const { createDom } = await import("../index");
+    const a = new Window();
+    const b = new Window();
+    a.document.body.innerHTML = "<p>a</p>";
+    b.document.body.innerHTML = "<p>b</p><p>b</p>";
+    const A = createDom({ document: a.document as unknown as Document });
+    const B = createDom({ document: b.document as unknown as Document });
+    expect(A.dom("p").length).toBe(1);
+    expect(B.dom("p").length).toBe(2);
+    expect(B.make("i").first!.ownerDocument).toBe(b.document);
+    await Promise.all([a.happyDOM.close(), b.happyDOM.close()]);
+  });
+
+  it("creates nodes in the document of the elements acted on", async () => {
+    const { createDom } = await import("../index");
+    const win = new Window();
+    const d = win.document as unknown as Document;
+    const { dom, make, html } = createDom({ document: d });
+    const owned = (n: Node | null | undefined) => n?.ownerDocument === d;
+
+    const box = make("div");
+    const p = make("p");
+    box.add(p);
+    p.wrap("span");
+    expect(owned(box.first!.firstElementChild)).toBe(true);
+    expect(box.outer()).toBe("<div><span><p></p></span></div>");
+
+    p.replace("<p>x</p>");
+    expect(box.outer()).toBe("<div><span><p>x</p></span></div>");
+    expect(owned(box.first!.querySelector("p"))).toBe(true);
+
+    const ul = make("ul");
+    ul.keyed(
+      [1, 2],
+      (x) => x,
+      (x) => `<li>${x}</li>`,
+    );
+    ul.keyed(
+      [2, 3],
+      (x) => x,
+      (x) => html`<li>${x}</li>`,
+    );
+    expect(ul.outer()).toBe("<ul><li>2</li><li>3</li></ul>");
+    expect(Array.from(ul.first!.children).every(owned)).toBe(true);
+
+    const two = dom([make("i").first!, make("b").first!]);
+    two.render(html`<em>${"hi"}</em>`);
+    expect(two.outer()).toBe("<i><em>hi</em></i><b><em>hi</em></b>");
+    expect(owned(two.list[1].firstChild)).toBe(true);
+    await win.happyDOM.close();
+  });
+});
@@ -0,0 +1,197 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { validate } from "../validate";
+
+const $ = <T extends Element = HTMLInputElement>(sel: string) =>
+  document.querySelector(sel) as unknown as T;
+
+function type(sel: string, value: string) {
+  const el = $(sel);
+  el.value = value;
+  el.dispatchEvent(new Event("input", { bubbles: true }));
+}
+
+function blur(sel: string) {
+  $(sel).dispatchEvent(new FocusEvent("focusout", { bubbles: true }));
+}
+
+const tick = () => new Promise((r) => setTimeout(r, 0));
+
+beforeEach(() => {
+  document.body.innerHTML = `
+    <form id="f">
+      <input name="name" required />
+      <small data-error="name" id="name-err"></small>
+      <input name="email" type="email" />
+      <small data-error="email"></small>
+      <input name="age" type="number" min="18" />
+      <button>Send</button>
+    </form>
+  `;
+});
+
+describe("validate() — native constraints", () => {
+  it("reports native failures with default or custom messages", async () => {
+    const v = validate("#f", { messages: { valueMissing: "Name please" } });
+    type("[name=email]", "nope");
+    type("[name=age]", "12");
+    expect(await v.check()).toBe(false);
+    expect(v.summary.value.errors).toEqual({
+      name: "Name please",
+      email: "Please enter a valid value",
+      age: "Value is too low",
+    });
+    expect(v.summary.value.valid).toBe(false);
+  });
+
+  it("renders messages into slots and toggles aria-invalid and class", async () => {
+    const v = validate("#f");
+    await v.check("name");
+    const input = $("[name=name]");
+    expect($("[data-error=name]").textContent).toBe("This field is required");
+    expect(input.getAttribute("aria-invalid")).toBe("true");
+    expect(input.getAttribute("aria-describedby")).toBe("name-err");
+    expect(input.classList.contains("invalid")).toBe(true);
+
+    type("[name=name]", "Ann");
+    await v.check("name");
+    expect($("[data-error=name]").textContent).toBe("");
+    expect(input.hasAttribute("aria-invalid")).toBe(false);
+    expect(input.hasAttribute("aria-describedby")).toBe(false);
+    expect(input.classList.contains("invalid")).toBe(false);
+  });
+
+  it("uses a custom slot and class", async () => {
+    document.body.insertAdjacentHTML("beforeend", `<p id="out"></p>`);
+    const v = validate("#f", {
+      slot: (name) => (name === "name" ? $("#out") : null),
+      invalid: "is-bad",
+    });
+    await v.check("name");
+    expect($("#out").textContent).toBe("This field is required");
+    expect($("[name=name]").classList.contains("is-bad")).toBe(true);
+  });
+});
+
+describe("validate() — custom rules", () => {
+  it("runs sync rules after native checks pass", async () => {
+    const rule = vi.fn((v: unknown) => v !== "root" || "Reserved name");
+    const v = validate("#f", { rules: { name: rule } });
+    await v.check("name");
+    expect(rule).not.toHaveBeenCalled(); // still empty → native fails first
+    type("[name=name]", "root");
+    expect(await v.check("name")).toBe(false);
+    expect(v.summary.value.errors.name).toBe("Reserved name");
+  });
+
+  it("runs async rules against a stand-in endpoint", async () => {
+    const taken = new Set(["a@b.co"]);
+    const endpoint = async (email: string) => ({ unique: !taken.has(email) });
+    const v = validate("#f", {
+      rules: {
+        email: async (value) =>
+          (await endpoint(String(value))).unique || "Email already taken",
+      },
+    });
+    type("[name=email]", "a@b.co");
+    const pending = v.check("email");
+    expect(v.summary.value.pending).toBe(true);
+    expect(await pending).toBe(false);
+    expect(v.summary.value).toMatchObject({
+      pending: false,
+      errors: { email: "Email already taken" },
+    });
+    type("[name=email]", "new@b.co");
+    expect(await v.check("email")).toBe(true);
+  });
+
+  it("keeps only the latest async result", async () => {
+    const resolvers: ((r: string | true) => void)[] = [];
+    const v = validate("#f", {
+      rules: { email: () => new Promise((r) => resolvers.push(r)) },
+    });
+    type("[name=email]", "a@b.co");
+    const first = v.check("email");
+    const second = v.check("email");
+    await tick();
+    resolvers[1](true);
+    await second;
+    resolvers[0]("stale error");
+    await first;
+    expect(v.summary.value.errors.email).toBeUndefined();
+  });
+
+  it("passes the field value and all form values to rules", async () => {
+    document.body.innerHTML = `<form id="f"><input name="pw" value="a" /><input name="again" value="b" /></form>`;
+    const v = validate("#f", {
+      rules: {
+        again: (value, { values }) => value === values.pw || "No match",
+      },
+    });
+    expect(await v.check()).toBe(false);
+    expect(v.summary.value.errors).toEqual({ again: "No match" });
+  });
+});
+
+describe("validate() — triggers", () => {
+  it("validates on blur and re-checks invalid fields on input", async () => {
+    const v = validate("#f");
+    blur("[name=name]");
+    await tick();
+    expect(v.summary.value.errors.name).toBeDefined();
+    type("[name=name]", "Ann");
+    await tick();
+    expect(v.summary.value.errors.name).toBeUndefined();
+  });
+
+  it("validates on input when asked", async () => {
+    const v = validate("#f", { on: ["input"] });
+    type("[name=email]", "bad");
+    await tick();
+    expect(v.summary.value.errors.email).toBeDefined();
+  });
+
+  it("blocks invalid submits and hands valid values to submit()", async () => {
+    const submit = vi.fn();
+    validate("#f", { submit });
+    const form = $<HTMLFormElement>("#f");
+    form.dispatchEvent(new Event("submit", { cancelable: true }));
+    await tick();
+    expect(submit).not.toHaveBeenCalled();
+    expect(document.activeElement).toBe($("[name=name]"));
+
+    type("[name=name]", "Ann");
+    form.dispatchEvent(new Event("submit", { cancelable: true }));
+    await tick();
+    expect(submit).toHaveBeenCalledWith(
+      { name: "Ann", email: "", age: null },
+      expect.any(Event),
+    );
+  });
+
+  it("reset() clears errors and destroy() removes listeners", async () => {
+    const v = validate("#f");
+    await v.check();
+    v.reset();
+    expect(v.summary.value).toEqual({
+      valid: true,
+      pending: false,
+      errors: {},
+    });
+    expect($("[name=name]").hasAttribute("aria-invalid")).toBe(false);
+    v.destroy();
+    blur("[name=name]");
+    await tick();
+    expect(v.summary.value.errors).toEqual({});
+  });
+
+  it("turns off the browser's checks only while it handles submit", () => {
+    const form = $<HTMLFormElement>("#f");
+    const blurOnly = validate(form, { on: ["blur"] });
+    expect(form.noValidate).toBe(false);
+    blurOnly.destroy();
+    const v = validate(form);
+    expect(form.noValidate).toBe(true);
+    v.destroy();
+    expect(form.noValidate).toBe(false);
+  });
+});
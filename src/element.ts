@@ -0,0 +1,205 @@
+// @marwajs/dom/element
+// Small custom elements on top of Dom: typed props reflected from attributes,
+// `this.$` scoped to the shadow root, re-render when a prop changes.
+// Usage:
+//   import { define } from "@marwajs/dom/element";
+//   define("x-counter", {
+//     props: { count: Number, label: String },
+//     styles: ":host { display: inline-block }",
+//     render() { return html`<button>${this.label}: ${this.count}</button>`; },
+//     connected() { this.$.on("click", () => this.count++); },
+//   });
+
+import { dom, effect, signal, type Dom, type Signal } from "./index.js";
+
+type PropType = StringConstructor | NumberConstructor | BooleanConstructor;
+
+export type PropDef =
+  | PropType
+  | {
+      type: PropType;
+      default?: string | number | boolean;
+      /** Mirror property writes back to the attribute (default: true) */
+      reflect?: boolean;
+    };
+
+type Typed<D> = D extends { type: infer C }
+  ? Typed<C>
+  : D extends NumberConstructor
+    ? number
+    : D extends BooleanConstructor
+      ? boolean
+      : string;
+
+export type Props<P extends Record<string, PropDef>> = {
+  [K in keyof P]: Typed<P[K]>;
+};
+
+export type Widget<
+  P extends Record<string, PropDef> = Record<string, PropDef>,
+> = HTMLElement &
+  Props<P> & {
+    /** Dom scoped to the element's shadow root */
+    readonly $: Dom<ShadowRoot>;
+  };
+
+export type ElementSpec<P extends Record<string, PropDef>> = {
+  /** Typed props, each observed as its kebab-case attribute (`maxItems` → `max-items`) */
+  props?: P;
+  /** CSS for the shadow root */
+  styles?: string | string[];
+  /** Shadow root mode (default: "open") */
+  mode?: ShadowRootMode;
+  /** Returns an `html\`\`` view; reruns whenever a prop (or signal) it reads changes */
+  render?: (this: Widget<P>) => Dom | void;
+  /** After the first render; may return a cleanup that runs on disconnect */
+  connected?: (this: Widget<P>) => void | (() => void);
+  disconnected?: (this: Widget<P>) => void;
+};
+
+type State = {
+  props: Map<string, Signal<unknown>>;
+  /** Rendered and connected() has run; cleared by the teardown */
+  live?: boolean;
+  style?: HTMLStyleElement;
+  stop?: () => void;
+  cleanup?: () => void;
+};
+
+const STATE = new WeakMap<HTMLElement, State>();
+
+const kebab = (s: string) => s.replace(/[A-Z]/g, (c) => `-${c.toLowerCase()}`);
+
+function parse(type: PropType, raw: string | null, fallback: unknown) {
+  if (type === Boolean) return raw !== null;
+  if (raw === null) return fallback;
+  return type === Number ? Number(raw) : raw;
+}
+
+function coerce(type: PropType, v: unknown) {
+  if (type === Boolean) return !!v;
+  if (type === Number) return Number(v);
+  return v == null ? "" : String(v);
+}
+
+/** Register a custom element; returns its constructor */
+export function define<
+  P extends Record<string, PropDef> = Record<string, never>,
+>(name: string, spec: ElementSpec<P>): { new (): Widget<P> } {
+  const defs = Object.entries(spec.props ?? {}).map(([key, d]) => {
+    const o = typeof d === "function" ? { type: d } : d;
+    const init =
+      "default" in o && o.default !== undefined
+        ? o.default
+        : o.type === Number
+          ? 0
+          : o.type === Boolean
+            ? false
+            : "";
+    return {
+      key,
+      attr: kebab(key),
+      type: o.type,
+      init,
+      reflect: o.reflect ?? true,
+    };
+  });
+  const css = ([] as string[]).concat(spec.styles ?? []).join("\n");
+
+  class Custom extends HTMLElement {
+    static get observedAttributes() {
+      return defs.map((d) => d.attr);
+    }
+
+    readonly $: Dom<ShadowRoot>;
+
+    constructor() {
+      super();
+      const root = this.attachShadow({ mode: spec.mode ?? "open" });
+      this.$ = dom(root);
+      const st: State = {
+        props: new Map(defs.map((d) => [d.key, signal<unknown>(d.init)])),
+      };
+      if (css && "adoptedStyleSheets" in root) {
+        const sheet = new CSSStyleSheet();
+        sheet.replaceSync(css);
+        root.adoptedStyleSheets = [sheet];
+      } else if (css) {
+        st.style = root.ownerDocument.createElement("style");
+        st.style.textContent = css;
+      }
+      STATE.set(this, st);
+    }
+
+    attributeChangedCallback(
+      attr: string,
+      _old: string | null,
+      raw: string | null,
+    ) {
+      const d = defs.find((x) => x.attr === attr);
+      if (d)
+        STATE.get(this)!.props.get(d.key)!.value = parse(d.type, raw, d.init);
+    }
+
+    connectedCallback() {
+      const self = this as unknown as Widget<P>;
+      const st = STATE.get(this)!;
+      // moved (disconnected and connected in one task): keep everything
+      if (st.live) return;
+      st.live = true;
+      // values assigned before the element was upgraded shadow our accessors
+      defs.forEach(({ key }) => {
+        if (!Object.prototype.hasOwnProperty.call(this, key)) return;
+        const v = (this as any)[key];
+        delete (this as any)[key];
+        (this as any)[key] = v;
+      });
+      if (spec.render)
+        st.stop = effect(() => {
+          const view = spec.render!.call(self);
+          if (view) this.$.render(view);
+          if (st.style && st.style.parentNode !== this.$.first)
+            this.$.first!.prepend(st.style);
+        });
+      else if (st.style) this.$.first!.prepend(st.style);
+      const done = spec.connected?.call(self);
+      st.cleanup = typeof done === "function" ? done : undefined;
+    }
+
+    disconnectedCallback() {
+      // wait a microtask: a move (appendChild elsewhere, keyed() or sortable()
+      // reordering) reconnects before then and keeps its state
+      queueMicrotask(() => {
+        const st = STATE.get(this)!;
+        if (this.isConnected || !st.live) return;
+        st.live = false;
+        st.stop?.();
+        st.cleanup?.();
+        st.stop = st.cleanup = undefined;
+        spec.disconnected?.call(this as unknown as Widget<P>);
+        // drop the rendered tree with its bindings and on() listeners; the
+        // next connect renders it again
+        this.$.render(dom()).off();
+      });
+    }
+  }
+
+  defs.forEach((d) =>
+    Object.defineProperty(Custom.prototype, d.key, {
+      configurable: true,
+      get(this: HTMLElement) {
+        return STATE.get(this)!.props.get(d.key)!.value;
+      },
+      set(this: HTMLElement, v: unknown) {
+        const next = coerce(d.type, v);
+        STATE.get(this)!.props.get(d.key)!.value = next;
+        if (!d.reflect) return;
+        if (d.type === Boolean) this.toggleAttribute(d.attr, next as boolean);
+        else this.setAttribute(d.attr, String(next));
+      },
+    }),
+  );
+
+  customElements.define(name, Custom);
+  return Custom as unknown as { new (): Widget<P> };
+}
@@ -1,11 +1,13 @@
 // @marwajs/dom/fx
-// Adds single-word animation helpers to Dom via a one-time enableFx() call.
+// Adds single-word animation helpers to Dom as a plugin.
 // Usage:
 //   import dom, { Dom } from "@marwajs/dom";
-//   import { enableFx, ease } from "@marwajs/dom/fx";
-//   enableFx();  // patches Dom.prototype
+//   import { fx, ease } from "@marwajs/dom/fx";
+//   Dom.use(fx);
 //   dom("#box").fade(300).move(20, 0, 300).scale(1.2, 300);
 
+import { Dom, measure, mutate, type Plugin } from "./index.js";
+
 type Easing = (t: number) => number;
 
 const ease = {
@@ -40,7 +42,6 @@ type Tweenable = {
 };
 
 type FXState = {
-  raf?: number;
   start?: number;
   stop?: boolean;
   from?: Record<string, number>;
@@ -155,7 +156,6 @@ function cancel(el: Element) {
   const st = FX.get(el);
   if (!st) return;
   st.stop = true;
-  if (st.raf) cancelAnimationFrame(st.raf);
   FX.delete(el);
 }
 
@@ -169,21 +169,14 @@ function tweenElement(
   cancel(el);
   const from: Record<string, number> = {};
   const dst: Record<string, number> = {};
-  for (const k of Object.keys(to)) {
-    const t = to[k]!;
-    const cur = readStyle(el, k);
-    from[k] = cur;
-    dst[k] = t;
-  }
   const st: FXState = { from, to: dst, stop: false };
   FX.set(el, st);
 
-  const start = now();
-  st.start = start;
-
+  // frames go through the shared scheduler: the start values are read in a
+  // read phase, every frame is written in a write phase
   const step = () => {
     if (st.stop) return;
-    const t = Math.min(1, (now() - start) / Math.max(1, ms));
+    const t = Math.min(1, (now() - st.start!) / Math.max(1, ms));
     const e = easing(t);
 
     for (const k of Object.keys(dst)) {
@@ -194,33 +187,41 @@ function tweenElement(
     }
 
     if (t < 1) {
-      st.raf = requestAnimationFrame(step);
+      void mutate(step);
     } else {
       FX.delete(el);
       onDone && onDone();
     }
   };
 
-  st.raf = requestAnimationFrame(step);
+  void measure(() => {
+    if (st.stop) return;
+    for (const k of Object.keys(to)) {
+      from[k] = readStyle(el, k);
+      dst[k] = to[k]!;
+    }
+    st.start = now();
+    void mutate(step);
+  });
 }
 
 // Public helpers (operate on first element in the Dom set)
-function fxTo(
-  d: any,
+function fxTo<D extends Dom>(
+  d: D,
   to: Tweenable,
   ms = 300,
   easing: Easing = ease.inout,
-): any {
+): D {
   const el = d.first as HTMLElement | undefined;
   if (el) tweenElement(el, to, ms, easing);
   return d;
 }
-function fxFade(
-  d: any,
+function fxFade<D extends Dom>(
+  d: D,
   ms = 300,
   show?: boolean,
   easing: Easing = ease.inout,
-): any {
+): D {
   const el = d.first as HTMLElement | undefined;
   if (!el) return d;
   const target =
@@ -235,81 +236,87 @@ function fxFade(
   });
   return d;
 }
-function fxMove(
-  d: any,
+function fxMove<D extends Dom>(
+  d: D,
   x = 0,
   y = 0,
   ms = 300,
   easing: Easing = ease.inout,
-): any {
+): D {
   const el = d.first as HTMLElement | undefined;
   if (el) tweenElement(el, { x, y }, ms, easing);
   return d;
 }
-function fxScale(d: any, s = 1, ms = 300, easing: Easing = ease.inout): any {
+function fxScale<D extends Dom>(
+  d: D,
+  s = 1,
+  ms = 300,
+  easing: Easing = ease.inout,
+): D {
   const el = d.first as HTMLElement | undefined;
   if (el) tweenElement(el, { scale: s }, ms, easing);
   return d;
 }
-function fxRotate(d: any, deg = 0, ms = 300, easing: Easing = ease.inout): any {
+function fxRotate<D extends Dom>(
+  d: D,
+  deg = 0,
+  ms = 300,
+  easing: Easing = ease.inout,
+): D {
   const el = d.first as HTMLElement | undefined;
   if (el) tweenElement(el, { rotate: deg }, ms, easing);
   return d;
 }
-function fxStop(d: any): any {
+function fxStop<D extends Dom>(d: D): D {
   const el = d.first as HTMLElement | undefined;
   if (el) cancel(el);
   return d;
 }
 
-let _patched = false;
-let _domProto: any = null;
-
-async function getDomPrototype(): Promise<any> {
-  if (_domProto) return _domProto;
-  const { Dom } = await import("./index.js");
-  _domProto = Dom.prototype;
-  return _domProto;
-}
-
-let _patchPromise: Promise<void> | null = null;
+/** Animation methods for Dom: Dom.use(fx) */
+export const fx: Plugin = {
+  name: "fx",
+  methods: {
+    to(to: Tweenable, ms?: number, easing?: Easing) {
+      return fxTo(this, to, ms, easing);
+    },
+    fade(ms?: number, show?: boolean, easing?: Easing) {
+      return fxFade(this, ms, show, easing);
+    },
+    move(x?: number, y?: number, ms?: number, easing?: Easing) {
+      return fxMove(this, x, y, ms, easing);
+    },
+    scale(s?: number, ms?: number, easing?: Easing) {
+      return fxScale(this, s, ms, easing);
+    },
+    rotate(deg?: number, ms?: number, easing?: Easing) {
+      return fxRotate(this, deg, ms, easing);
+    },
+    stop() {
+      return fxStop(this);
+    },
+  },
+};
 
-export function enableFx(): Promise<void> | void {
-  if (_patched) return;
-  if (!_patchPromise) {
-    _patchPromise = getDomPrototype().then((P) => {
-      if (P.__fxPatched) return;
-      P.to = function (to: Tweenable, ms?: number, easing?: Easing) {
-        return fxTo(this, to, ms, easing);
-      };
-      P.fade = function (ms?: number, show?: boolean, easing?: Easing) {
-        return fxFade(this, ms, show, easing);
-      };
-      P.move = function (x?: number, y?: number, ms?: number, easing?: Easing) {
-        return fxMove(this, x, y, ms, easing);
-      };
-      P.scale = function (s?: number, ms?: number, easing?: Easing) {
-        return fxScale(this, s, ms, easing);
-      };
-      P.rotate = function (deg?: number, ms?: number, easing?: Easing) {
-        return fxRotate(this, deg, ms, easing);
-      };
-      P.stop = function () {
-        return fxStop(this);
-      };
-      P.__fxPatched = true;
-      _patched = true;
-    });
-  }
-  return _patchPromise;
+/** @deprecated Use `Dom.use(fx)` */
+export function enableFx(): void {
+  Dom.use(fx);
 }
 
-// Ambient typing for consumers (optional)
-declare global {
-  interface HTMLElement {
-    // no-op, reserved
+declare module "./index.js" {
+  interface Dom<T> {
+    /** Tween to the given values (first element) */
+    to(to: Tweenable, ms?: number, easing?: Easing): this;
+    /** Fade in/out; toggles when `show` is omitted */
+    fade(ms?: number, show?: boolean, easing?: Easing): this;
+    /** Translate to x, y (px) */
+    move(x?: number, y?: number, ms?: number, easing?: Easing): this;
+    scale(s?: number, ms?: number, easing?: Easing): this;
+    /** Rotate to `deg` degrees */
+    rotate(deg?: number, ms?: number, easing?: Easing): this;
+    /** Cancel the running animation */
+    stop(): this;
   }
-  interface DomFX {}
 }
 
 export type { Tweenable, Easing };
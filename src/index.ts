@@ -8,15 +8,80 @@ export type DomInput =
   | Element
   | Document
   | Window
+  | DocumentFragment
   | NodeListOf<Element>
   | Element[]
-  | Dom;
+  | Dom<Item>;
+
+/** What a Dom set can hold */
+type Item = Element | Document | DocumentFragment | Window;
+type HTMLTag = keyof HTMLElementTagNameMap;
+type SVGTag = keyof SVGElementTagNameMap;
+/** Element type the callbacks of a `Dom<T>` receive */
+type ElementOf<T> = [T] extends [Element] ? T : Element;
+/** Elements with a string `value` that `val()` reads */
+type Valued =
+  | HTMLInputElement
+  | HTMLSelectElement
+  | HTMLTextAreaElement
+  | HTMLButtonElement
+  | HTMLOptionElement
+  | HTMLOutputElement
+  | HTMLDataElement;
 
 type Maybe<T> = T | null | undefined;
 type StyleValue = string | number;
+/** A plain value or a signal the element stays bound to */
+type Bindable<T> = T | ReadSignal<T>;
 
 type OnOptions = boolean | AddEventListenerOptions;
-type EventMap = HTMLElementEventMap & DocumentEventMap & WindowEventMap;
+
+/**
+ * App-specific events, declared by module augmentation:
+ *
+ *   declare module "marwajs-dom" {
+ *     interface DomEvents { "cart:add": { sku: string; qty: number } }
+ *   }
+ *
+ * `on("cart:add", (ev) => ev.detail.sku)` and `emit("cart:add", …)` are then
+ * typed. Names must not contain "." (that starts a namespace).
+ */
+export interface DomEvents {}
+
+type CustomEventMap = {
+  [K in keyof DomEvents]: CustomEvent<DomEvents[K]>;
+};
+
+/** CustomEvents dispatched by the swipe() and pinch() gestures */
+type GestureEventMap = {
+  swipe: CustomEvent<Swipe>;
+  pinch: CustomEvent<Pinch>;
+};
+
+type EventMap = HTMLElementEventMap &
+  DocumentEventMap &
+  WindowEventMap &
+  CustomEventMap &
+  GestureEventMap;
+
+/** Observer subscriptions that off() can remove like events */
+type OffMap = EventMap & {
+  seen: IntersectionObserverEntry;
+  resized: ResizeObserverEntry;
+  drag: DragMove;
+  sortable: SortChange;
+  swipe: Swipe;
+  pinch: Pinch;
+};
+
+export type EmitOptions = {
+  /** Default: true */
+  bubbles?: boolean;
+  /** Cross shadow-DOM boundaries. Default: false */
+  composed?: boolean;
+  /** Default: true */
+  cancelable?: boolean;
+};
 
 function toArray<T>(x: ArrayLike<T> | T | null | undefined): T[] {
   if (!x) return [];
@@ -26,15 +91,74 @@ function toArray<T>(x: ArrayLike<T> | T | null | undefined): T[] {
   return [x as T];
 }
 
-/** Assert a value is non-null */
-function nn<T>(v: T | null | undefined): v is T {
-  return v != null;
-}
-
 function isElement(x: any): x is Element {
   return x && typeof x === "object" && x.nodeType === 1;
 }
 
+/**
+ * Dedupe and sort into document order. A shadow tree sorts at its host, ahead
+ * of the host's light children.
+ */
+function ordered(els: Iterable<Element>): Element[] {
+  return Array.from(new Set(els)).sort(before);
+}
+
+/** `el`, then the host of each shadow tree it sits in, outward */
+function hosts(el: Element): Element[] {
+  const out = [el];
+  let root = el.getRootNode() as ShadowRoot;
+  while (root.host) {
+    out.push(root.host);
+    root = root.host.getRootNode() as ShadowRoot;
+  }
+  return out;
+}
+
+function before(a: Element, b: Element): number {
+  if (a === b) return 0;
+  let pos = a.compareDocumentPosition(b);
+  if (pos & a.DOCUMENT_POSITION_DISCONNECTED) {
+    // compare in the innermost tree both reach through their hosts
+    const ha = hosts(a);
+    const hb = hosts(b);
+    const i = ha.findIndex((x) =>
+      hb.some((y) => y.getRootNode() === x.getRootNode()),
+    );
+    if (i >= 0) {
+      const x = ha[i];
+      const y = hb.find((y) => y.getRootNode() === x.getRootNode())!;
+      if (x === y) return i === 0 ? -1 : 1;
+      pos = x.compareDocumentPosition(y);
+    }
+  }
+  return pos & a.DOCUMENT_POSITION_FOLLOWING ? -1 : 1;
+}
+
+/** Selector, predicate, element or set → element test */
+function matcher<E extends Element>(
+  x: string | Element | Dom<Item> | ((el: E, i: number) => boolean),
+): (el: E, i: number) => boolean {
+  if (typeof x === "string") return (el) => el.matches(x);
+  if (typeof x === "function") return x;
+  const set = new Set<unknown>(x instanceof Dom ? x.list : [x]);
+  return (el) => set.has(el);
+}
+
+/** DocumentFragment or ShadowRoot */
+function isFragment(x: any): x is DocumentFragment {
+  return x && typeof x === "object" && x.nodeType === 11;
+}
+
+function isParent(x: any): x is Element | DocumentFragment {
+  return isElement(x) || isFragment(x);
+}
+
+function isNode(x: any): x is Node {
+  return !!x && typeof x === "object" && typeof x.nodeType === "number";
+}
+
+const isWindow = (x: any): x is Window => !!x && x.window === x;
+
 function camel(name: string) {
   return name.replace(/-([a-z])/g, (_, c) => c.toUpperCase());
 }
@@ -43,86 +167,2221 @@ function kebab(name: string) {
   return name.replace(/[A-Z]/g, (m) => "-" + m.toLowerCase());
 }
 
-function sanitizeHTML(html: string): string {
-  return html
-    .replace(/<script\b[^<]*(?:(?!<\/script>)<[^<]*)*<\/script>/gi, "")
-    .replace(/\bon\w+\s*=/gi, "data-removed-event=");
+// ===== Realm =====
+
+/** The document (and window) a bound `createDom()` works in */
+export type Realm = { document: Document; window?: Window };
+
+/** Realm of the bound call in progress, if any */
+let REALM: Realm | undefined;
+
+/** Document for new nodes and unscoped queries; resolved lazily, never at import */
+function doc(): Document {
+  const d =
+    REALM?.document ?? (typeof document !== "undefined" ? document : null);
+  if (!d) throw new Error("dom: no document — use createDom({ document })");
+  return d;
+}
+
+function win(): Window | null {
+  return (
+    REALM?.window ??
+    doc().defaultView ??
+    (typeof window !== "undefined" ? window : null)
+  );
+}
+
+/** Document a node (or window) belongs to */
+function docOf(x: unknown): Document {
+  if (isWindow(x)) return x.document;
+  if (isNode(x)) return x.nodeType === 9 ? (x as Document) : x.ownerDocument!;
+  return doc();
+}
+
+/**
+ * Run `fn` with new nodes and unscoped queries going to the document of `x`,
+ * so methods create nodes next to the elements they act on
+ */
+function within<T>(x: unknown, fn: () => T): T {
+  if (!isNode(x) && !isWindow(x)) return fn();
+  const d = docOf(x);
+  if (REALM?.document === d) return fn();
+  const prev = REALM;
+  REALM = { document: d };
+  try {
+    return fn();
+  } finally {
+    REALM = prev;
+  }
+}
+
+/** Markup of one item: elements as outerHTML, fragments and documents by their content */
+function serialize(x: Item | Node): string {
+  if (isWindow(x)) return serialize(x.document);
+  let out: string;
+  if (isElement(x)) out = x.outerHTML;
+  else if (x.nodeType === 9) {
+    const d = x as Document;
+    out =
+      (d.doctype ? `<!DOCTYPE ${d.doctype.name}>` : "") +
+      d.documentElement.outerHTML;
+  } else if ("innerHTML" in x) out = (x as ShadowRoot).innerHTML;
+  else {
+    const box = docOf(x).createElement("div");
+    box.appendChild(x.cloneNode(true));
+    out = box.innerHTML;
+  }
+  // template hole markers are an implementation detail
+  return out.replace(/<!--mw-->/g, "");
+}
+
+// ===== Sanitizer =====
+
+/** Allowlist policy for `sanitize()`, `make()` and `html()` */
+export type SanitizePolicy = {
+  /** Allowed tag names (lowercase). Unknown tags are unwrapped, keeping their text */
+  tags?: readonly string[];
+  /** Allowed attribute names. `data-*` and `aria-*` are always kept */
+  attrs?: readonly string[];
+  /** Allowed URL schemes for `href`, `src`, `action`… Relative URLs always pass */
+  schemes?: readonly string[];
+  /** Skip sanitizing entirely — only for markup you fully control */
+  trusted?: boolean;
+};
+
+/** Default policy: common text, media, table and form markup */
+export const POLICY: Readonly<Required<SanitizePolicy>> = Object.freeze({
+  tags: Object.freeze(
+    (
+      "a abbr address article aside audio b bdi bdo blockquote br button caption " +
+      "cite code col colgroup data dd del details dfn div dl dt em fieldset " +
+      "figcaption figure footer form h1 h2 h3 h4 h5 h6 header hr i img input ins " +
+      "kbd label legend li main mark nav ol optgroup option p picture pre q s " +
+      "samp section select small source span strong sub summary sup table tbody " +
+      "td textarea tfoot th thead time tr track u ul var video wbr"
+    ).split(" "),
+  ),
+  attrs: Object.freeze(
+    (
+      "accept action alt autocomplete checked cite class colspan controls " +
+      "datetime dir disabled download for headers height hidden href id label " +
+      "lang loop max maxlength method min minlength multiple muted name open " +
+      "pattern placeholder poster readonly rel required reversed role rowspan " +
+      "scope selected size span src srcset start step style tabindex target " +
+      "title type value width"
+    ).split(" "),
+  ),
+  schemes: Object.freeze(["http", "https", "mailto", "tel"]),
+  trusted: false,
+});
+
+/** Elements removed together with everything inside them */
+const DROP = new Set([
+  "script",
+  "style",
+  "template",
+  "iframe",
+  "frame",
+  "frameset",
+  "object",
+  "embed",
+  "applet",
+  "noscript",
+  "noembed",
+  "noframes",
+  "xmp",
+  "plaintext",
+  "svg",
+  "math",
+  "base",
+  "link",
+  "meta",
+  "title",
+]);
+
+/** Attributes holding a URL (SVG animation values can smuggle one in too) */
+const URL_ATTRS = new Set([
+  "href",
+  "src",
+  "xlink:href",
+  "action",
+  "formaction",
+  "poster",
+  "cite",
+  "background",
+  "data",
+  "codebase",
+  "values",
+  "from",
+  "to",
+  "by",
+]);
+
+function safeUrl(value: string, schemes: readonly string[]): boolean {
+  // Browsers ignore control chars and whitespace inside a scheme: "java\tscript:"
+  const v = value.replace(/[\u0000-\u0020\u007f-\u009f]/g, "").toLowerCase();
+  const m = /^([a-z][a-z0-9+.-]*):/.exec(v);
+  return !m || schemes.includes(m[1]);
+}
+
+function safeSrcset(value: string, schemes: readonly string[]): boolean {
+  return value
+    .split(",")
+    .every((c) => safeUrl(c.trim().split(/\s+/)[0] ?? "", schemes));
+}
+
+function safeStyle(value: string, schemes: readonly string[]): boolean {
+  const v = value.replace(/\\|\/\*[\s\S]*?\*\//g, "").toLowerCase();
+  if (/expression\s*\(|behavior\s*:|-moz-binding|@import/.test(v)) return false;
+  const urls = v.match(/url\s*\(\s*(['"]?)([^'")]*)\1\s*\)/g) ?? [];
+  return urls.every((u) =>
+    safeUrl(u.replace(/^url\s*\(\s*['"]?|['"]?\s*\)$/g, ""), schemes),
+  );
+}
+
+/** Attributes that run script whatever their value is checked for */
+function scriptAttr(name: string): boolean {
+  return name.startsWith("on") || name === "srcdoc";
 }
 
-function setStyle(el: Element, k: string, v: StyleValue) {
+/** Value checks for URL, srcset and style attributes (`name` lowercase) */
+function safeValue(
+  name: string,
+  value: string,
+  schemes: readonly string[],
+): boolean {
+  return (
+    (!URL_ATTRS.has(name) || safeUrl(value, schemes)) &&
+    (name !== "srcset" || safeSrcset(value, schemes)) &&
+    (name !== "style" || safeStyle(value, schemes))
+  );
+}
+
+function cleanAttrs(el: Element, p: Required<SanitizePolicy>) {
+  Array.from(el.attributes).forEach((a) => {
+    const name = a.name.toLowerCase();
+    const ok =
+      !scriptAttr(name) &&
+      (p.attrs.includes(name) || /^(data|aria)-[\w.-]+$/.test(name)) &&
+      safeValue(name, a.value, p.schemes);
+    if (!ok) el.removeAttribute(a.name);
+  });
+}
+
+function cleanTree(node: ParentNode, p: Required<SanitizePolicy>) {
+  Array.from(node.childNodes).forEach((child) => {
+    if (child.nodeType === 3) return;
+    if (!isElement(child)) {
+      // comments, processing instructions, CDATA
+      child.parentNode?.removeChild(child);
+      return;
+    }
+    const tag = child.localName.toLowerCase();
+    if (!p.tags.includes(tag)) {
+      const parent = child.parentNode;
+      if (!DROP.has(tag)) {
+        // unknown but harmless: keep the (cleaned) contents
+        cleanTree(child, p);
+        while (child.firstChild) parent?.insertBefore(child.firstChild, child);
+      }
+      parent?.removeChild(child);
+      return;
+    }
+    cleanAttrs(child, p);
+    if (tag === "template")
+      cleanTree((child as HTMLTemplateElement).content, p);
+    cleanTree(child, p);
+  });
+}
+
+/** Parse HTML into an inert fragment and strip everything the policy does not allow */
+function purify(
+  html: string,
+  policy?: SanitizePolicy,
+  d: Document = doc(),
+): DocumentFragment {
+  const tpl = d.createElement("template");
+  tpl.innerHTML = html;
+  // per field, so an explicit `undefined` still means the default
+  const p: Required<SanitizePolicy> = {
+    tags: policy?.tags ?? POLICY.tags,
+    attrs: policy?.attrs ?? POLICY.attrs,
+    schemes: policy?.schemes ?? POLICY.schemes,
+    trusted: policy?.trusted ?? POLICY.trusted,
+  };
+  if (!p.trusted) cleanTree(tpl.content, p);
+  return tpl.content;
+}
+
+/** Sanitize an HTML string against an allowlist policy */
+export function sanitize(html: string, policy?: SanitizePolicy): string {
+  const box = doc().createElement("div");
+  box.appendChild(purify(html, policy));
+  return box.innerHTML;
+}
+
+// ===== Styles =====
+
+/** Properties whose numbers stay bare instead of getting `px` */
+const UNITLESS = new Set([
+  "animationIterationCount",
+  "aspectRatio",
+  "borderImageOutset",
+  "borderImageSlice",
+  "borderImageWidth",
+  "boxFlex",
+  "boxFlexGroup",
+  "boxOrdinalGroup",
+  "columnCount",
+  "columns",
+  "fillOpacity",
+  "flex",
+  "flexGrow",
+  "flexNegative",
+  "flexOrder",
+  "flexPositive",
+  "flexShrink",
+  "floodOpacity",
+  "fontWeight",
+  "gridArea",
+  "gridColumn",
+  "gridColumnEnd",
+  "gridColumnSpan",
+  "gridColumnStart",
+  "gridRow",
+  "gridRowEnd",
+  "gridRowSpan",
+  "gridRowStart",
+  "initialLetter",
+  "lineClamp",
+  "lineHeight",
+  "mathDepth",
+  "opacity",
+  "order",
+  "orphans",
+  "scale",
+  "shapeImageThreshold",
+  "stopOpacity",
+  "strokeDasharray",
+  "strokeDashoffset",
+  "strokeMiterlimit",
+  "strokeOpacity",
+  "strokeWidth",
+  "tabSize",
+  "widows",
+  "zIndex",
+  "zoom",
+]);
+
+/** "fontSize" / "font-size" / "--gap" → the name setProperty() expects */
+function cssName(k: string): string {
+  if (k.startsWith("--")) return k;
+  if (k === "cssFloat") return "float";
+  const name = k.includes("-") ? k : kebab(k);
+  // WebkitLineClamp → -webkit-line-clamp, msFlex → -ms-flex
+  return /^(webkit|moz|ms|o)-/.test(name) ? `-${name}` : name;
+}
+
+function isUnitless(prop: string): boolean {
+  const bare = camel(prop.replace(/^-(webkit|moz|ms|o)-/, ""));
+  return UNITLESS.has(bare);
+}
+
+function setStyle(el: Element, k: string, v: Maybe<StyleValue>) {
   const style = (el as HTMLElement).style;
   if (!style) return;
-  if (v == null) {
-    style.removeProperty(k.includes("-") ? k : kebab(k));
+  const prop = cssName(k);
+  if (v == null || v === "") {
+    style.removeProperty(prop);
     return;
   }
-  const prop = camel(k);
-  const num = typeof v === "number" && !/^(opacity|zIndex)$/i.test(k);
-  const val = num ? `${v}px` : String(v);
-  (style as unknown as Record<string, string>)[prop] = val;
+  let val =
+    typeof v === "number" && !prop.startsWith("--") && !isUnitless(prop)
+      ? `${v}px`
+      : String(v);
+  let priority = "";
+  const important = /\s*!important\s*$/i;
+  if (important.test(val)) {
+    val = val.replace(important, "");
+    priority = "important";
+  }
+  style.setProperty(prop, val, priority);
+}
+
+/** Computed value of one property ("" when the element has no view) */
+function readStyle(el: Element, k: string): string {
+  const view = el.ownerDocument.defaultView;
+  if (!view) return "";
+  return view.getComputedStyle(el).getPropertyValue(cssName(k)).trim();
 }
 
+// ===== Events =====
+
+type Target = Element | Document | DocumentFragment | Window;
+
+/** "click" or a namespaced "click.menu.main" */
+type EventSpec<K extends string> = K | `${K}.${string}`;
+
+type Listener = {
+  type: string;
+  ns: string[];
+  /** Handler as given to on/once/onD — what `off(type, handler)` matches */
+  handler: unknown;
+  /** Function actually registered (a wrapper for once/onD) */
+  wrapped: unknown;
+  capture: boolean;
+  /** Detach from the target (removeEventListener, unobserve…) */
+  dispose: () => void;
+};
+
 /** Tiny internal event registry for `off()` without keeping user closures around */
-const REG = new WeakMap<
-  Element | Document | Window,
-  Map<string, Set<EventListenerOrEventListenerObject>>
+const REG = new WeakMap<Target, Listener[]>();
+
+/** "click.menu.main" → { type: "click", ns: ["menu", "main"] }; ".menu" has no type */
+function parseSpec(spec: string) {
+  const [type, ...ns] = spec.split(".");
+  return { type, ns: ns.filter(Boolean) };
+}
+
+function captureOf(opts?: OnOptions) {
+  return typeof opts === "boolean" ? opts : !!opts?.capture;
+}
+
+function register(t: Target, entry: Listener) {
+  const list = REG.get(t);
+  if (list) list.push(entry);
+  else REG.set(t, [entry]);
+}
+
+function listen(
+  t: Target,
+  spec: string,
+  handler: unknown,
+  wrapped: EventListener,
+  opts?: OnOptions,
+) {
+  const { type, ns } = parseSpec(spec);
+  const capture = captureOf(opts);
+  t.addEventListener(type, wrapped, opts);
+  register(t, {
+    type,
+    ns,
+    handler,
+    wrapped,
+    capture,
+    dispose: () => t.removeEventListener(type, wrapped, capture),
+  });
+}
+
+/** Register a non-DOM subscription (observers…) so off()/release() dispose it too */
+function hold(t: Target, spec: string, handler: unknown, dispose: () => void) {
+  const { type, ns } = parseSpec(spec);
+  register(t, { type, ns, handler, wrapped: dispose, capture: false, dispose });
+}
+
+/** Remove registered listeners matching type, namespaces, handler and capture */
+function unlisten(t: Target, spec = "", handler?: unknown, opts?: OnOptions) {
+  const { type, ns } = parseSpec(spec);
+  const capture = opts === undefined ? undefined : captureOf(opts);
+  let hits = 0;
+  const keep = (REG.get(t) ?? []).filter((l) => {
+    const hit =
+      (!type || l.type === type) &&
+      ns.every((n) => l.ns.includes(n)) &&
+      (!handler || l.handler === handler || l.wrapped === handler) &&
+      (capture === undefined || l.capture === capture);
+    if (hit) {
+      hits++;
+      l.dispose();
+    }
+    return !hit;
+  });
+  if (keep.length) REG.set(t, keep);
+  else REG.delete(t);
+  // not ours: still let off(type, fn) undo a plain addEventListener
+  if (!hits && type && typeof handler === "function")
+    t.removeEventListener(type, handler as EventListener, capture);
+}
+
+// ===== Signals =====
+
+const SIGNAL = Symbol("signal");
+
+type Effect = { run(): void; deps: Set<Set<Effect>>; stopped: boolean };
+
+/** Effect currently collecting dependencies */
+let ACTIVE: Effect | undefined;
+
+/** Read-only reactive value (e.g. a `computed()`) */
+export interface ReadSignal<T> {
+  readonly [SIGNAL]: true;
+  readonly value: T;
+  /** Read without tracking */
+  peek(): T;
+  /** Subscribe to changes; returns an unsubscribe function */
+  sub(fn: (v: T) => void): () => void;
+}
+
+/** Writable reactive value */
+export interface Signal<T> extends ReadSignal<T> {
+  value: T;
+}
+
+export function isSignal(x: unknown): x is ReadSignal<unknown> {
+  return !!x && typeof x === "object" && SIGNAL in x;
+}
+
+/** Create a writable signal: `const n = signal(0); n.value++` */
+export function signal<T>(initial: T): Signal<T> {
+  let v = initial;
+  const subs = new Set<Effect>();
+  const s: Signal<T> = {
+    [SIGNAL]: true,
+    get value() {
+      if (ACTIVE) {
+        subs.add(ACTIVE);
+        ACTIVE.deps.add(subs);
+      }
+      return v;
+    },
+    set value(next: T) {
+      if (Object.is(v, next)) return;
+      v = next;
+      Array.from(subs).forEach((e) => e.run());
+    },
+    peek: () => v,
+    sub(fn) {
+      let first = true;
+      return effect(() => {
+        const cur = s.value;
+        if (!first) fn(cur);
+        first = false;
+      });
+    },
+  };
+  return s;
+}
+
+/**
+ * Derived signal. It follows the signals it reads only while an effect (or
+ * sub()) depends on it; once the last one is disposed it lets go of them and
+ * recomputes on the next read, so a dropped computed is not kept alive.
+ */
+export function computed<T>(fn: () => T): ReadSignal<T> {
+  let v: T;
+  let fresh = false;
+  const subs = new Set<Effect>();
+  const forget = () => {
+    src.deps.forEach((d) => d.delete(src));
+    src.deps.clear();
+    fresh = false;
+  };
+  const get = () => {
+    if (fresh) return v;
+    forget();
+    const prev = ACTIVE;
+    ACTIVE = src;
+    try {
+      v = fn();
+    } finally {
+      ACTIVE = prev;
+    }
+    fresh = true;
+    return v;
+  };
+  // a source changed: recompute for dependents, notify them if it differs
+  const src: Effect = {
+    deps: new Set(),
+    stopped: false,
+    run() {
+      const prev = v;
+      forget();
+      if (subs.size && !Object.is(prev, get()))
+        Array.from(subs).forEach((e) => e.run());
+    },
+  };
+  // dependents leave and rejoin while they re-run; detach only if none came back
+  const del = subs.delete.bind(subs);
+  subs.delete = (e) => {
+    const had = del(e);
+    if (had && !subs.size)
+      queueMicrotask(() => {
+        if (!subs.size) forget();
+      });
+    return had;
+  };
+  const c: ReadSignal<T> = {
+    [SIGNAL]: true,
+    get value() {
+      if (ACTIVE) {
+        subs.add(ACTIVE);
+        ACTIVE.deps.add(subs);
+      }
+      return get();
+    },
+    peek: get,
+    sub(fn) {
+      let first = true;
+      return effect(() => {
+        const cur = c.value;
+        if (!first) fn(cur);
+        first = false;
+      });
+    },
+  };
+  return c;
+}
+
+/**
+ * Run `fn` now and again whenever a signal it read changes. `fn` may return a
+ * cleanup, called before each re-run and on dispose. Returns the disposer.
+ */
+export function effect(fn: () => void | (() => void)): () => void {
+  let cleanup: void | (() => void);
+  const e: Effect = {
+    deps: new Set(),
+    stopped: false,
+    run() {
+      if (e.stopped) return;
+      cleanup?.();
+      e.deps.forEach((d) => d.delete(e));
+      e.deps.clear();
+      const prev = ACTIVE;
+      ACTIVE = e;
+      try {
+        const r = fn();
+        cleanup = typeof r === "function" ? r : undefined;
+      } finally {
+        ACTIVE = prev;
+      }
+    },
+  };
+  e.run();
+  return () => {
+    e.stopped = true;
+    cleanup?.();
+    e.deps.forEach((d) => d.delete(e));
+    e.deps.clear();
+  };
+}
+
+/** Signal-driven bindings per element, keyed by slot ("text", "attr:href"…) */
+const BIND = new WeakMap<Element, Map<string, () => void>>();
+
+/** Dispose the binding held by one slot */
+function drop(el: Element, slot: string) {
+  const m = BIND.get(el);
+  m?.get(slot)?.();
+  m?.delete(slot);
+}
+
+/** Apply `v` to a slot now, or keep applying it while `v` is a signal */
+function bind(el: Element, slot: string, v: unknown, apply: (v: any) => void) {
+  drop(el, slot);
+  const m = BIND.get(el);
+  if (!isSignal(v)) return apply(v);
+  const dispose = effect(() => {
+    apply(v.value);
+  });
+  if (m) m.set(slot, dispose);
+  else BIND.set(el, new Map([[slot, dispose]]));
+}
+
+/** Dispose the signal bindings of an element and its descendants */
+function unbind(el: Element) {
+  [el, ...Array.from(el.querySelectorAll("*"))].forEach((n) => {
+    BIND.get(n)?.forEach((dispose) => dispose());
+    BIND.delete(n);
+  });
+}
+
+/** Drop every registered listener and binding on an element and its descendants */
+function release(el: Element) {
+  unbind(el);
+  [el, ...Array.from(el.querySelectorAll("*"))].forEach((n) => unlisten(n));
+}
+
+// ===== Forms =====
+
+export type FormValue =
+  | string
+  | number
+  | boolean
+  | File
+  | null
+  | FormValue[]
+  | FormValues;
+
+export interface FormValues {
+  [name: string]: FormValue;
+}
+
+type Control = HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement;
+
+function isFile(x: unknown): x is File {
+  return typeof Blob !== "undefined" && x instanceof Blob;
+}
+
+/** Named, value-carrying controls of a form (or any container) */
+function controls(root: Element): Control[] {
+  const all =
+    root.localName === "form"
+      ? Array.from((root as HTMLFormElement).elements)
+      : Array.from(root.querySelectorAll("input, select, textarea"));
+  return all.filter(
+    (c): c is Control =>
+      /^(input|select|textarea)$/.test(c.localName) &&
+      !!(c as Control).name &&
+      !/^(submit|button|reset|image)$/.test((c as Control).type),
+  );
+}
+
+/** "user[address][city]" → ["user", "address", "city"]; "tags[]" → ["tags", ""] */
+function pathOf(name: string): string[] {
+  const out: string[] = [];
+  const re = /^[^[\]]+|\[([^\]]*)\]/g;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(name))) out.push(m[0][0] === "[" ? m[1] : m[0]);
+  return out.length ? out : [name];
+}
+
+/** Segments that would reach Object.prototype instead of a plain key */
+const UNSAFE_KEYS = new Set(["__proto__", "constructor", "prototype"]);
+
+const own = (o: object, k: PropertyKey) =>
+  Object.prototype.hasOwnProperty.call(o, k);
+
+/** Set `v` at a bracket path: "" appends, numeric segments index arrays, repeats collect */
+function assign(root: FormValues, path: string[], v: FormValue) {
+  if (path.some((seg) => UNSAFE_KEYS.has(seg))) return;
+  let cur: any = root;
+  path.forEach((seg, i) => {
+    const key = seg === "" && Array.isArray(cur) ? cur.length : seg;
+    if (i < path.length - 1) {
+      const next = own(cur, key) ? cur[key] : undefined;
+      if (next == null || typeof next !== "object" || isFile(next))
+        cur[key] = /^\d*$/.test(path[i + 1]) ? [] : {};
+      cur = cur[key];
+    } else if (!Array.isArray(cur) && own(cur, key)) {
+      const prev = cur[key];
+      cur[key] = Array.isArray(prev) ? [...prev, v] : [prev, v];
+    } else cur[key] = v;
+  });
+}
+
+/** Read the value stored at a bracket path ("" stops at the array) */
+function lookup(root: FormValues, path: string[]): unknown {
+  let cur: unknown = root;
+  for (const seg of path) {
+    if (seg === "") return cur;
+    if (cur == null || typeof cur !== "object" || !own(cur, seg))
+      return undefined;
+    cur = (cur as Record<string, unknown>)[seg];
+  }
+  return cur;
+}
+
+/** Path for a control whose value is already an array */
+function listPath(name: string) {
+  const path = pathOf(name);
+  return path[path.length - 1] === "" ? path.slice(0, -1) : path;
+}
+
+function readForm(root: Element): FormValues {
+  const out: FormValues = {};
+  const list = controls(root).filter((c) => !c.disabled);
+  const done = new Set<string>();
+  const same = (c: Control) => list.filter((x) => x.name === c.name);
+  list.forEach((c) => {
+    const { name, type } = c;
+    if (type === "checkbox") {
+      const group = same(c).filter((x) => x.type === "checkbox");
+      if (name.endsWith("[]") || group.length > 1) {
+        if (done.has(name)) return;
+        done.add(name);
+        const on = group.filter((x) => (x as HTMLInputElement).checked);
+        assign(
+          out,
+          listPath(name),
+          on.map((x) => x.value),
+        );
+      } else assign(out, pathOf(name), (c as HTMLInputElement).checked);
+    } else if (type === "radio") {
+      if (done.has(name)) return;
+      done.add(name);
+      const on = same(c).find((x) => (x as HTMLInputElement).checked);
+      assign(out, pathOf(name), on ? on.value : null);
+    } else if (type === "select-multiple") {
+      const opts = Array.from((c as HTMLSelectElement).options);
+      assign(
+        out,
+        listPath(name),
+        opts.filter((o) => o.selected).map((o) => o.value),
+      );
+    } else if (type === "file") {
+      const files = Array.from((c as HTMLInputElement).files ?? []);
+      if ((c as HTMLInputElement).multiple) assign(out, listPath(name), files);
+      else assign(out, pathOf(name), files[0] ?? null);
+    } else if (type === "number" || type === "range") {
+      assign(out, pathOf(name), c.value === "" ? null : Number(c.value));
+    } else assign(out, pathOf(name), c.value);
+  });
+  return out;
+}
+
+function fillForm(root: Element, values: FormValues) {
+  const seen = new Map<string, number>();
+  controls(root).forEach((c) => {
+    let v = lookup(values, pathOf(c.name));
+    if (v === undefined || c.type === "file") return;
+    if (c.type === "checkbox" || c.type === "radio") {
+      const input = c as HTMLInputElement;
+      input.checked = Array.isArray(v)
+        ? v.map(String).includes(input.value)
+        : typeof v === "boolean"
+          ? v
+          : v != null && String(v) === input.value;
+    } else if (c.type === "select-multiple") {
+      const on = (Array.isArray(v) ? v : [v]).map(String);
+      Array.from((c as HTMLSelectElement).options).forEach(
+        (o) => (o.selected = on.includes(o.value)),
+      );
+    } else {
+      if (Array.isArray(v)) {
+        // repeated names take the array items in document order
+        const k = seen.get(c.name) ?? 0;
+        seen.set(c.name, k + 1);
+        v = v[k];
+      }
+      c.value = v == null ? "" : String(v);
+    }
+  });
+}
+
+function flatten(
+  values: FormValues | FormValue[],
+  prefix: string,
+  out: [string, string | File][],
+) {
+  const arr = Array.isArray(values);
+  Object.keys(values).forEach((k) => {
+    const v = (values as any)[k] as FormValue;
+    const name = !prefix ? k : arr ? `${prefix}[]` : `${prefix}[${k}]`;
+    if (v == null) return;
+    if (isFile(v)) out.push([name, v]);
+    else if (typeof v === "object")
+      flatten(v, arr && !Array.isArray(v) ? `${prefix}[${k}]` : name, out);
+    else out.push([name, String(v)]);
+  });
+  return out;
+}
+
+/** Encode a (nested) values object as FormData with bracket names */
+export function toFormData(values: FormValues): FormData {
+  const fd = new FormData();
+  flatten(values, "", []).forEach(([k, v]) => fd.append(k, v));
+  return fd;
+}
+
+/** Encode a (nested) values object as URLSearchParams; files are skipped */
+export function toParams(values: FormValues): URLSearchParams {
+  const p = new URLSearchParams();
+  flatten(values, "", []).forEach(([k, v]) => !isFile(v) && p.append(k, v));
+  return p;
+}
+
+/** Decode FormData / URLSearchParams entries into a nested values object */
+export function fromEntries(
+  entries: Iterable<[string, FormDataEntryValue]>,
+): FormValues {
+  const out: FormValues = {};
+  for (const [k, v] of entries) assign(out, pathOf(k), v);
+  return out;
+}
+
+// ===== Mutations =====
+
+export type WatchOptions = {
+  /** Report added/removed children (default: true unless `attributes` is set) */
+  childList?: boolean;
+  /** Report attribute changes; an array limits it to those names */
+  attributes?: boolean | string[];
+  /** Watch the whole subtree (default: true) */
+  subtree?: boolean;
+  /** Only report elements matching a selector or predicate (descendants of added/removed nodes included) */
+  filter?: string | ((el: Element) => boolean);
+};
+
+export type Mutations = {
+  added: Dom;
+  removed: Dom;
+  /** Elements whose attributes changed */
+  changed: Dom;
+  records: MutationRecord[];
+};
+
+function observe(
+  targets: readonly unknown[],
+  init: MutationObserverInit,
+  cb: (records: MutationRecord[]) => void,
+): () => void {
+  const observers = targets
+    .filter((t): t is Node => !!t && typeof (t as Node).nodeType === "number")
+    .map((t) => {
+      const mo = new MutationObserver(cb);
+      mo.observe(t, init);
+      return mo;
+    });
+  return () => observers.forEach((mo) => mo.disconnect());
+}
+
+/** Elements among `nodes` (plus their descendants when `deep`) passing `test` */
+function collect(
+  nodes: ArrayLike<Node>,
+  test: (el: Element) => boolean,
+  deep: boolean,
+  out = new Set<Element>(),
+) {
+  Array.from(nodes).forEach((n) => {
+    if (!isElement(n)) return;
+    if (test(n)) out.add(n);
+    if (deep) n.querySelectorAll("*").forEach((d) => test(d) && out.add(d));
+  });
+  return out;
+}
+
+// ===== Observers =====
+
+type Shared<E> = {
+  obs: {
+    observe(el: Element): void;
+    unobserve(el: Element): void;
+    disconnect(): void;
+  };
+  subs: Map<Element, Set<(e: E) => void>>;
+  /** Latest entry per element, replayed to late subscribers */
+  last: WeakMap<Element, E>;
+};
+
+/** One Intersection/ResizeObserver per distinct options, shared by all elements */
+const IO = new Map<string, Shared<IntersectionObserverEntry>>();
+const RO = new Map<string, Shared<ResizeObserverEntry>>();
+
+function share<E extends { target: Element }>(
+  pools: Map<string, Shared<E>>,
+  key: string,
+  create: (cb: (entries: E[]) => void) => Shared<E>["obs"],
+  el: Element,
+  fn: (e: E) => void,
+): () => void {
+  let pool = pools.get(key);
+  if (!pool) {
+    const subs: Shared<E>["subs"] = new Map();
+    const last = new WeakMap<Element, E>();
+    const obs = create((entries) =>
+      entries.forEach((e) => {
+        last.set(e.target, e);
+        subs.get(e.target)?.forEach((f) => f(e));
+      }),
+    );
+    pool = { obs, subs, last };
+    pools.set(key, pool);
+  }
+  const p = pool;
+  const set = p.subs.get(el);
+  if (set) {
+    set.add(fn);
+    // the observer only reports an element once when it starts observing it
+    const prev = p.last.get(el);
+    if (prev) queueMicrotask(() => set.has(fn) && fn(prev));
+  } else {
+    p.subs.set(el, new Set([fn]));
+    p.obs.observe(el);
+  }
+  return () => {
+    const subs = p.subs.get(el);
+    if (!subs?.delete(fn) || subs.size) return;
+    p.subs.delete(el);
+    p.obs.unobserve(el);
+    if (p.subs.size) return;
+    p.obs.disconnect();
+    if (pools.get(key) === p) pools.delete(key);
+  };
+}
+
+export type SeenOptions = {
+  threshold?: number | number[];
+  rootMargin?: string;
+  /** Fire on the first intersection only, then stop observing */
+  once?: boolean;
+};
+
+// ===== Scheduler =====
+
+// Reads and writes queued for the next animation frame: every read runs
+// first, then every write, so layout is computed at most once per frame.
+// Writes queued by a read join the same frame; anything else queued while a
+// phase runs waits for the next one.
+const READS: (() => void)[] = [];
+const WRITES: (() => void)[] = [];
+let framed = false;
+
+function nextFrame(cb: () => void) {
+  if (typeof requestAnimationFrame === "function") requestAnimationFrame(cb);
+  else setTimeout(cb, 16);
+}
+
+function flush() {
+  READS.splice(0).forEach((run) => run());
+  WRITES.splice(0).forEach((run) => run());
+  framed = false;
+  if (READS.length || WRITES.length) schedule();
+}
+
+function schedule() {
+  if (framed) return;
+  framed = true;
+  nextFrame(flush);
+}
+
+function enqueue<T>(queue: (() => void)[], fn: () => T): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    queue.push(() => {
+      try {
+        resolve(fn());
+      } catch (err) {
+        reject(err);
+      }
+    });
+    schedule();
+  });
+}
+
+/** Run a layout read in the next frame's read phase */
+export function measure<T>(fn: () => T): Promise<T> {
+  return enqueue(READS, fn);
+}
+
+/** Run a DOM write in the next frame's write phase (after all reads) */
+export function mutate<T>(fn: () => T): Promise<T> {
+  return enqueue(WRITES, fn);
+}
+
+// ===== Transitions =====
+
+export type TransitionOptions = {
+  /** Longest the sequence may take in ms (default: computed transition/animation time) */
+  duration?: number;
+};
+
+/** Transition name (and options) per element, set by transition() */
+const TRANSITIONS = new WeakMap<Element, { name: string; duration?: number }>();
+
+/** Sequence currently running on each element */
+const RUNNING = new WeakMap<
+  Element,
+  { phase: "enter" | "leave"; cancel: () => void }
 >();
 
-function regGetKey(target: Element | Document | Window, type: string) {
-  let m = REG.get(target);
-  if (!m) {
-    m = new Map();
-    REG.set(target, m);
+/** Longest delay + duration of the computed transitions or animations, in ms */
+function cssDuration(el: Element): number {
+  const cs = el.ownerDocument.defaultView?.getComputedStyle(el);
+  if (!cs) return 0;
+  const ms = (v: string) =>
+    (v || "0s")
+      .split(",")
+      .map((x) => (parseFloat(x) || 0) * (x.trim().endsWith("ms") ? 1 : 1000));
+  const longest = (dur: string, delay: string) => {
+    const ds = ms(delay);
+    return Math.max(...ms(dur).map((d, i) => d + ds[i % ds.length]));
+  };
+  return Math.max(
+    longest(cs.transitionDuration, cs.transitionDelay),
+    longest(cs.animationDuration, cs.animationDelay),
+  );
+}
+
+/**
+ * Run the `name-enter-*` / `name-leave-*` class sequence on `el`, then `done`
+ * once transitionend/animationend fires (or the duration runs out). Cancels a
+ * sequence already running; without a transition() `done` runs right away.
+ */
+function transit(el: Element, phase: "enter" | "leave", done?: () => void) {
+  RUNNING.get(el)?.cancel();
+  const t = TRANSITIONS.get(el);
+  if (!t) return done?.();
+  const c = (step: string) => `${t.name}-${phase}-${step}`;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const cancel = () => {
+    RUNNING.delete(el);
+    clearTimeout(timer);
+    el.removeEventListener("transitionend", end);
+    el.removeEventListener("animationend", end);
+    el.classList.remove(c("from"), c("active"), c("to"));
+  };
+  const finish = () => {
+    cancel();
+    done?.();
+  };
+  // ignore events bubbling up from descendants
+  const end = (ev: Event) => ev.target === el && finish();
+  el.classList.add(c("from"), c("active"));
+  RUNNING.set(el, { phase, cancel });
+  // two frames, so the `-from` state is rendered before it is swapped out
+  nextFrame(() =>
+    nextFrame(() => {
+      if (RUNNING.get(el)?.cancel !== cancel) return;
+      el.classList.remove(c("from"));
+      el.classList.add(c("to"));
+      el.addEventListener("transitionend", end);
+      el.addEventListener("animationend", end);
+      timer = setTimeout(finish, t.duration ?? cssDuration(el));
+    }),
+  );
+}
+
+// ===== Geometry =====
+
+export type Box = "content" | "padding" | "border" | "margin";
+export type Size = { width: number; height: number };
+
+export type ScrollOptions = {
+  /** Animate with the browser's smooth scrolling */
+  smooth?: boolean;
+  /** Stop short of the target, e.g. by the height of a sticky header */
+  offset?: number | { top?: number; left?: number };
+  /**
+   * Scroller to move. scrollTo() moves the set itself by default; reveal() the
+   * nearest scrollable ancestor, else the window.
+   */
+  container?: string | Element | Document | Window;
+};
+
+export type RevealOptions = ScrollOptions & {
+  /** Where the element lands (default: "nearest" — scroll only if needed) */
+  align?: "start" | "center" | "end" | "nearest";
+};
+
+/** An element scroller or the viewport; documents scroll as their window */
+type Scroller = Element | Window;
+type Edges = { top: number; left: number; bottom: number; right: number };
+
+function scrollerOf(t: unknown): Scroller | null {
+  if (isElement(t) || isWindow(t)) return t;
+  if ((t as Document | null)?.nodeType === 9)
+    return (t as Document).defaultView;
+  return null;
+}
+
+function scrollerFrom(
+  x: string | Element | Document | Window,
+): Scroller | null {
+  return scrollerOf(typeof x === "string" ? doc().querySelector(x) : x);
+}
+
+/** Nearest ancestor with a scrolling overflow, else the element's window */
+function scrollParent(el: Element): Scroller {
+  const win = el.ownerDocument.defaultView!;
+  for (let p = el.parentElement; p; p = p.parentElement) {
+    const cs = win.getComputedStyle(p);
+    if (/(auto|scroll|overlay)/.test(cs.overflowY + cs.overflowX + cs.overflow))
+      return p;
   }
-  let set = m.get(type);
-  if (!set) {
-    set = new Set();
-    m.set(type, set);
+  return win;
+}
+
+function scrollPos(s: Scroller): { top: number; left: number } {
+  return isWindow(s)
+    ? { top: s.scrollY, left: s.scrollX }
+    : { top: s.scrollTop, left: s.scrollLeft };
+}
+
+function scrollSet(s: Scroller, top?: number, left?: number, smooth = false) {
+  const cur = scrollPos(s);
+  const to = { top: top ?? cur.top, left: left ?? cur.left };
+  if (isWindow(s)) s.scrollTo({ ...to, behavior: smooth ? "smooth" : "auto" });
+  else if (smooth && typeof s.scrollTo === "function")
+    s.scrollTo({ ...to, behavior: "smooth" });
+  else {
+    s.scrollTop = to.top;
+    s.scrollLeft = to.left;
   }
-  return set;
 }
 
+/** Visible area of a scroller, in client coordinates */
+function viewport(s: Scroller): Edges {
+  if (isWindow(s))
+    return { top: 0, left: 0, bottom: s.innerHeight, right: s.innerWidth };
+  const r = s.getBoundingClientRect();
+  const top = r.top + s.clientTop;
+  const left = r.left + s.clientLeft;
+  return {
+    top,
+    left,
+    bottom: top + (s.clientHeight || r.height),
+    right: left + (s.clientWidth || r.width),
+  };
+}
+
+function offsetOf(o: ScrollOptions["offset"]): { top: number; left: number } {
+  return typeof o === "number"
+    ? { top: o, left: 0 }
+    : { top: o?.top ?? 0, left: o?.left ?? 0 };
+}
+
+/** Horizontal and vertical sums of padding, border and margin */
+function edges(el: Element) {
+  const cs = el.ownerDocument.defaultView!.getComputedStyle(el);
+  const sum = (k: string, a: string, b: string) =>
+    (parseFloat(cs.getPropertyValue(k.replace("*", a))) || 0) +
+    (parseFloat(cs.getPropertyValue(k.replace("*", b))) || 0);
+  return {
+    pad: {
+      x: sum("padding-*", "left", "right"),
+      y: sum("padding-*", "top", "bottom"),
+    },
+    bor: {
+      x: sum("border-*-width", "left", "right"),
+      y: sum("border-*-width", "top", "bottom"),
+    },
+    mar: {
+      x: sum("margin-*", "left", "right"),
+      y: sum("margin-*", "top", "bottom"),
+    },
+    borderBox: cs.boxSizing === "border-box",
+  };
+}
+
+function sizeOf(t: unknown, box: Box): Size {
+  if (isWindow(t)) return { width: t.innerWidth, height: t.innerHeight };
+  if ((t as Document | null)?.nodeType === 9) {
+    const root = (t as Document).documentElement;
+    return { width: root.scrollWidth, height: root.scrollHeight };
+  }
+  if (!isElement(t)) return { width: 0, height: 0 };
+  const h = t as HTMLElement;
+  const r = t.getBoundingClientRect();
+  const width = h.offsetWidth ?? r.width;
+  const height = h.offsetHeight ?? r.height;
+  const { pad, bor, mar } = edges(t);
+  if (box === "border") return { width, height };
+  if (box === "margin") return { width: width + mar.x, height: height + mar.y };
+  const inner = box === "content";
+  return {
+    width: width - bor.x - (inner ? pad.x : 0),
+    height: height - bor.y - (inner ? pad.y : 0),
+  };
+}
+
+/** Set width/height so that `box` measures `v`, whatever the box-sizing */
+function resize(el: Element, v: Partial<Size>, box: Box) {
+  const e = edges(el);
+  const toCss = (n: number, axis: "x" | "y") => {
+    const border =
+      box === "content"
+        ? n + e.pad[axis] + e.bor[axis]
+        : box === "padding"
+          ? n + e.bor[axis]
+          : box === "margin"
+            ? n - e.mar[axis]
+            : n;
+    return Math.max(
+      0,
+      e.borderBox ? border : border - e.pad[axis] - e.bor[axis],
+    );
+  };
+  if (v.width !== undefined) setStyle(el, "width", toCss(v.width, "x"));
+  if (v.height !== undefined) setStyle(el, "height", toCss(v.height, "y"));
+}
+
+// ===== Pointer gestures =====
+
+export type DragMove = {
+  el: HTMLElement;
+  /** Current translate offset */
+  x: number;
+  y: number;
+  /** Distance moved since this drag started */
+  dx: number;
+  dy: number;
+  event: PointerEvent;
+};
+
+export type DragOptions = {
+  /** Lock movement to one axis */
+  axis?: "x" | "y";
+  /** Keep the element inside "parent", an element or a selector */
+  bounds?: "parent" | string | Element;
+  /** Only start dragging from elements matching this selector */
+  handle?: string;
+  /** Snap to a grid: one step for both axes or [x, y] */
+  grid?: number | [number, number];
+  onStart?: (m: DragMove) => void;
+  onMove?: (m: DragMove) => void;
+  onEnd?: (m: DragMove) => void;
+};
+
+export type SortChange = { item: Element; from: number; to: number };
+
+export type SortOptions = {
+  /** Sortable items (default: the element's children) */
+  items?: string;
+  /** Only start dragging from elements matching this selector */
+  handle?: string;
+  /** Direction of the list (default: "y") */
+  axis?: "x" | "y";
+  /** Pointer travel in px before an item is picked up (default: 4) */
+  threshold?: number;
+  /** After an item lands at a new index */
+  onSort?: (change: SortChange) => void;
+};
+
+export type Swipe = {
+  dir: "left" | "right" | "up" | "down";
+  dx: number;
+  dy: number;
+  /** px per ms */
+  velocity: number;
+  event: PointerEvent;
+};
+
+export type SwipeOptions = {
+  /** Minimum distance in px (default: 50) */
+  threshold?: number;
+  /** Maximum duration in ms (default: 500) */
+  time?: number;
+};
+
+export type Pinch = {
+  /** Distance between the two pointers relative to the start of the pinch */
+  scale: number;
+  /** Midpoint between the pointers, in client coordinates */
+  x: number;
+  y: number;
+  event: PointerEvent;
+};
+
+export type PinchOptions = {
+  /** Minimum scale change before the first report (default: 0.05) */
+  threshold?: number;
+};
+
+/** Current drag translate per element */
+const DRAGGED = new WeakMap<Element, { x: number; y: number }>();
+
+type Track = {
+  /** Return false to ignore this pointer */
+  down(ev: PointerEvent): boolean | void;
+  move(ev: PointerEvent): void;
+  up(ev: PointerEvent, cancelled: boolean): void;
+};
+
+/**
+ * pointerdown on `el`, then pointermove/up on its document while any accepted
+ * pointer is down (so fast moves off the element are not lost). Returns a
+ * disposer.
+ */
+function track(el: Element, t: Track): () => void {
+  const doc = el.ownerDocument;
+  const ids = new Set<number>();
+  const move = (e: Event) => {
+    const ev = e as PointerEvent;
+    if (ids.has(ev.pointerId)) t.move(ev);
+  };
+  const up = (e: Event) => {
+    const ev = e as PointerEvent;
+    if (!ids.delete(ev.pointerId)) return;
+    t.up(ev, ev.type === "pointercancel");
+    if (!ids.size) stop();
+  };
+  const stop = () => {
+    doc.removeEventListener("pointermove", move);
+    doc.removeEventListener("pointerup", up);
+    doc.removeEventListener("pointercancel", up);
+  };
+  const down = (e: Event) => {
+    const ev = e as PointerEvent;
+    if (t.down(ev) === false) return;
+    if (!ids.size) {
+      doc.addEventListener("pointermove", move);
+      doc.addEventListener("pointerup", up);
+      doc.addEventListener("pointercancel", up);
+    }
+    ids.add(ev.pointerId);
+  };
+  el.addEventListener("pointerdown", down);
+  return () => {
+    el.removeEventListener("pointerdown", down);
+    ids.clear();
+    stop();
+  };
+}
+
+/** Whether a pointerdown started on `handle` (when given) inside `el` */
+function grabbed(ev: PointerEvent, el: Element, handle?: string): boolean {
+  if (ev.button > 0) return false;
+  if (!handle) return true;
+  const h = (ev.target as Element | null)?.closest?.(handle);
+  return !!h && el.contains(h);
+}
+
+// ===== Selection =====
+
+/** Character offsets into an input's value or an element's text */
+export type TextRange = { start: number; end: number; text: string };
+
+/** Caret position in client (viewport) coordinates */
+export type CaretRect = { top: number; left: number; height: number };
+
+type TextField = HTMLInputElement | HTMLTextAreaElement;
+
+function isField(el: Element): el is TextField {
+  return el.tagName === "INPUT" || el.tagName === "TEXTAREA";
+}
+
+/** Input types without a selection API (email, number…) report null */
+const ranged = (el: TextField) => typeof el.selectionStart === "number";
+
+/** Character offset of a DOM point within `root`'s text */
+function textOffset(root: Node, node: Node, offset: number): number {
+  const r = root.ownerDocument!.createRange();
+  r.setStart(root, 0);
+  r.setEnd(node, offset);
+  return r.toString().length;
+}
+
+/** DOM point at a character offset within `root`'s text, clamped to the end */
+function textPoint(root: Node, n: number): [Node, number] {
+  const walk = root.ownerDocument!.createTreeWalker(root, 4); // SHOW_TEXT
+  let last: Text | null = null;
+  for (
+    let t = walk.nextNode() as Text | null;
+    t;
+    t = walk.nextNode() as Text | null
+  ) {
+    if (n <= t.length) return [t, Math.max(0, n)];
+    n -= t.length;
+    last = t;
+  }
+  return last ? [last, last.length] : [root, root.childNodes.length];
+}
+
+/** The document selection's range, if it lies inside `el` */
+function rangeIn(el: Element): Range | null {
+  const sel = el.ownerDocument.getSelection();
+  if (!sel || !sel.rangeCount) return null;
+  const r = sel.getRangeAt(0);
+  return el.contains(r.startContainer) && el.contains(r.endContainer)
+    ? r
+    : null;
+}
+
+function readRange(el: Element): TextRange {
+  if (isField(el)) {
+    const len = el.value.length;
+    const start = ranged(el) ? el.selectionStart! : len;
+    const end = ranged(el) ? el.selectionEnd! : len;
+    return { start, end, text: el.value.slice(start, end) };
+  }
+  const r = rangeIn(el);
+  if (!r) {
+    const len = (el.textContent ?? "").length;
+    return { start: len, end: len, text: "" };
+  }
+  return {
+    start: textOffset(el, r.startContainer, r.startOffset),
+    end: textOffset(el, r.endContainer, r.endOffset),
+    text: r.toString(),
+  };
+}
+
+function writeRange(el: Element, start: number, end: number) {
+  if (isField(el)) {
+    if (ranged(el)) el.setSelectionRange(start, end);
+    return;
+  }
+  const r = el.ownerDocument.createRange();
+  r.setStart(...textPoint(el, start));
+  r.setEnd(...textPoint(el, Math.max(start, end)));
+  const sel = el.ownerDocument.getSelection();
+  sel?.removeAllRanges();
+  sel?.addRange(r);
+}
+
+/** Replace the selection with `text`, as typing would: beforeinput, then input */
+function insertText(el: Element, text: string) {
+  const view = el.ownerDocument.defaultView as typeof globalThis | null;
+  const Input = view?.InputEvent ?? InputEvent;
+  const init = {
+    inputType: "insertText",
+    data: text,
+    bubbles: true,
+    composed: true,
+  };
+  if (
+    !el.dispatchEvent(new Input("beforeinput", { ...init, cancelable: true }))
+  )
+    return;
+  if (isField(el)) {
+    const { start, end } = readRange(el);
+    el.value = el.value.slice(0, start) + text + el.value.slice(end);
+    writeRange(el, start + text.length, start + text.length);
+  } else {
+    let r = rangeIn(el);
+    if (!r) {
+      writeRange(el, Infinity, Infinity);
+      r = rangeIn(el);
+    }
+    if (!r) return;
+    const node = el.ownerDocument.createTextNode(text);
+    r.deleteContents();
+    r.insertNode(node);
+    const end = textOffset(el, node, node.length);
+    writeRange(el, end, end);
+  }
+  el.dispatchEvent(new Input("input", init));
+}
+
+/** Styles that decide where text wraps inside an input or textarea */
+const MIRRORED = [
+  "boxSizing",
+  "width",
+  "height",
+  "overflowX",
+  "overflowY",
+  "borderTopWidth",
+  "borderRightWidth",
+  "borderBottomWidth",
+  "borderLeftWidth",
+  "borderStyle",
+  "paddingTop",
+  "paddingRight",
+  "paddingBottom",
+  "paddingLeft",
+  "fontStyle",
+  "fontVariant",
+  "fontWeight",
+  "fontStretch",
+  "fontSize",
+  "fontFamily",
+  "lineHeight",
+  "letterSpacing",
+  "wordSpacing",
+  "textAlign",
+  "textIndent",
+  "textTransform",
+  "tabSize",
+];
+
+/**
+ * Caret of an input/textarea, measured on a hidden mirror that copies its
+ * text metrics (fields have no Range to ask)
+ */
+function fieldCaret(el: TextField, pos: number): CaretRect {
+  const d = el.ownerDocument;
+  const cs = d.defaultView!.getComputedStyle(el);
+  const mirror = d.createElement("div");
+  MIRRORED.forEach((k) => setStyle(mirror, k, cs.getPropertyValue(cssName(k))));
+  setStyle(mirror, "position", "absolute");
+  setStyle(mirror, "visibility", "hidden");
+  setStyle(mirror, "top", 0);
+  setStyle(mirror, "left", 0);
+  setStyle(
+    mirror,
+    "whiteSpace",
+    el.tagName === "TEXTAREA" ? "pre-wrap" : "pre",
+  );
+  setStyle(mirror, "overflowWrap", "break-word");
+  mirror.textContent = el.value.slice(0, pos);
+  const mark = d.createElement("span");
+  mark.textContent = el.value.slice(pos) || ".";
+  mirror.appendChild(mark);
+  d.body.appendChild(mirror);
+  const box = mirror.getBoundingClientRect();
+  const at = mark.getClientRects()[0] ?? mark.getBoundingClientRect();
+  mirror.remove();
+  const r = el.getBoundingClientRect();
+  return {
+    top: r.top + at.top - box.top - el.scrollTop,
+    left: r.left + at.left - box.left - el.scrollLeft,
+    height: at.height || parseFloat(cs.lineHeight) || parseFloat(cs.fontSize),
+  };
+}
+
+/** Caret inside an element from the selection's focus point */
+function rangeCaret(el: Element): CaretRect | null {
+  const sel = el.ownerDocument.getSelection();
+  if (!rangeIn(el) || !sel?.focusNode) return null;
+  const r = el.ownerDocument.createRange();
+  r.setStart(sel.focusNode, sel.focusOffset);
+  const at = r.getClientRects()[0] ?? r.getBoundingClientRect();
+  if (at.top || at.left || at.height)
+    return { top: at.top, left: at.left, height: at.height };
+  // a collapsed range on an empty line has no box: use its element's
+  const n = sel.focusNode;
+  const host = (isElement(n) ? n : n.parentElement) ?? el;
+  const hr = host.getBoundingClientRect();
+  const cs = el.ownerDocument.defaultView!.getComputedStyle(host);
+  return {
+    top: hr.top,
+    left: hr.left,
+    height: parseFloat(cs.lineHeight) || parseFloat(cs.fontSize) || hr.height,
+  };
+}
+
+// ===== ARIA =====
+
+type Tristate = boolean | "mixed";
+
+/** ARIA states and properties as aria() reads them, by name without `aria-` */
+export type AriaValues = {
+  activedescendant: string;
+  atomic: boolean;
+  autocomplete: "none" | "inline" | "list" | "both";
+  busy: boolean;
+  checked: Tristate;
+  colcount: number;
+  colindex: number;
+  colspan: number;
+  controls: string[];
+  current: boolean | "page" | "step" | "location" | "date" | "time";
+  describedby: string[];
+  description: string;
+  details: string[];
+  disabled: boolean;
+  errormessage: string[];
+  expanded: boolean;
+  flowto: string[];
+  haspopup: boolean | "menu" | "listbox" | "tree" | "grid" | "dialog";
+  hidden: boolean;
+  invalid: boolean | "grammar" | "spelling";
+  keyshortcuts: string;
+  label: string;
+  labelledby: string[];
+  level: number;
+  live: "off" | "polite" | "assertive";
+  modal: boolean;
+  multiline: boolean;
+  multiselectable: boolean;
+  orientation: "horizontal" | "vertical";
+  owns: string[];
+  placeholder: string;
+  posinset: number;
+  pressed: Tristate;
+  readonly: boolean;
+  relevant: string;
+  required: boolean;
+  roledescription: string;
+  rowcount: number;
+  rowindex: number;
+  rowspan: number;
+  selected: boolean;
+  setsize: number;
+  sort: "none" | "ascending" | "descending" | "other";
+  valuemax: number;
+  valuemin: number;
+  valuenow: number;
+  valuetext: string;
+};
+
+/** Id references: ids, elements (given an id if they lack one) or a list */
+export type IdRefs = string | Element | (string | Element)[];
+
+/** What aria() accepts for each name; null/undefined removes the attribute */
+export type AriaInput<K extends keyof AriaValues> = Maybe<
+  K extends IdListName | "activedescendant" ? IdRefs : AriaValues[K]
+>;
+
+type IdListName = {
+  [K in keyof AriaValues]: AriaValues[K] extends string[] ? K : never;
+}[keyof AriaValues];
+
+const ARIA_BOOL = new Set([
+  "atomic",
+  "busy",
+  "disabled",
+  "expanded",
+  "hidden",
+  "modal",
+  "multiline",
+  "multiselectable",
+  "readonly",
+  "required",
+  "selected",
+]);
+
+/** true/false or a token */
+const ARIA_TOKEN = new Set([
+  "checked",
+  "current",
+  "haspopup",
+  "invalid",
+  "pressed",
+]);
+
+const ARIA_NUM = new Set([
+  "colcount",
+  "colindex",
+  "colspan",
+  "level",
+  "posinset",
+  "rowcount",
+  "rowindex",
+  "rowspan",
+  "setsize",
+  "valuemax",
+  "valuemin",
+  "valuenow",
+]);
+
+const ARIA_IDS = new Set([
+  "controls",
+  "describedby",
+  "details",
+  "errormessage",
+  "flowto",
+  "labelledby",
+  "owns",
+]);
+
+let UID = 0;
+
+function idOf(x: string | Element): string {
+  if (typeof x === "string") return x;
+  if (!x.id) x.id = `mw-${++UID}`;
+  return x.id;
+}
+
+function ariaWrite(v: unknown): string {
+  if (Array.isArray(v)) return v.map(idOf).join(" ");
+  if (isElement(v)) return idOf(v);
+  return String(v);
+}
+
+function ariaRead(name: string, raw: string): unknown {
+  if (ARIA_IDS.has(name)) return raw.split(/\s+/).filter(Boolean);
+  if (ARIA_NUM.has(name)) return Number(raw);
+  if (ARIA_BOOL.has(name)) return raw === "true";
+  if (ARIA_TOKEN.has(name) && (raw === "true" || raw === "false"))
+    return raw === "true";
+  return raw;
+}
+
+/** Elements that carry a role without a role attribute (the common cases) */
+const IMPLICIT_ROLES: Record<string, string> = {
+  article: "article",
+  banner: "body > header",
+  button:
+    "button, input[type=button], input[type=submit], input[type=reset], input[type=image], summary",
+  cell: "td",
+  checkbox: "input[type=checkbox]",
+  columnheader: "th",
+  combobox: "select:not([multiple]):not([size]), input[list]",
+  complementary: "aside",
+  contentinfo: "body > footer",
+  dialog: "dialog",
+  form: "form",
+  heading: "h1, h2, h3, h4, h5, h6",
+  img: "img:not([alt=''])",
+  link: "a[href], area[href]",
+  list: "ul, ol, menu",
+  listbox: "select[multiple], select[size], datalist",
+  listitem: "ul > li, ol > li, menu > li",
+  main: "main",
+  navigation: "nav",
+  option: "option",
+  progressbar: "progress",
+  radio: "input[type=radio]",
+  region: "section[aria-label], section[aria-labelledby]",
+  row: "tr",
+  searchbox: "input[type=search]:not([list])",
+  separator: "hr",
+  slider: "input[type=range]",
+  spinbutton: "input[type=number]",
+  table: "table",
+  textbox:
+    "textarea, input:not([type]):not([list]), input[type=text]:not([list]), input[type=email]:not([list]), input[type=tel]:not([list]), input[type=url]:not([list])",
+};
+
+/** Selector for elements with `role`, explicitly or implicitly */
+function roleSelector(role: string): string {
+  const implicit = IMPLICIT_ROLES[role];
+  const explicit = `[role~="${role.replace(/["\\]/g, "\\$&")}"]`;
+  if (!implicit) return explicit;
+  return `${explicit}, ${implicit
+    .split(",")
+    .map((s) => `${s.trim()}:not([role])`)
+    .join(", ")}`;
+}
+
+function roleOf(el: Element): string | null {
+  const explicit = el.getAttribute("role")?.trim().split(/\s+/)[0];
+  if (explicit) return explicit;
+  for (const role in IMPLICIT_ROLES)
+    if (el.matches(IMPLICIT_ROLES[role])) return role;
+  return null;
+}
+
+export type AnnounceOptions = {
+  /** "assertive" interrupts the screen reader (default: "polite") */
+  politeness?: "polite" | "assertive";
+};
+
+/** One live region per politeness and document, created on first use */
+const REGIONS = new WeakMap<
+  Document,
+  Partial<Record<"polite" | "assertive", HTMLElement>>
+>();
+
+const ANNOUNCING = new WeakMap<HTMLElement, ReturnType<typeof setTimeout>>();
+
+/**
+ * Tell screen reader users something through a shared, visually hidden live
+ * region. The message lands a moment after the region is cleared, so the
+ * same text twice is announced twice.
+ */
+export function announce(message: string, opts: AnnounceOptions = {}): void {
+  const { politeness = "polite" } = opts;
+  const d = doc();
+  const regions = REGIONS.get(d) ?? {};
+  REGIONS.set(d, regions);
+  let el = regions[politeness];
+  if (!el?.isConnected) {
+    el = regions[politeness] = d.createElement("div");
+    el.setAttribute("role", politeness === "assertive" ? "alert" : "status");
+    el.setAttribute("aria-live", politeness);
+    el.setAttribute("aria-atomic", "true");
+    const hidden: Record<string, string | number> = {
+      position: "absolute",
+      width: "1px",
+      height: "1px",
+      margin: "-1px",
+      padding: 0,
+      border: 0,
+      overflow: "hidden",
+      clip: "rect(0 0 0 0)",
+      whiteSpace: "nowrap",
+    };
+    Object.keys(hidden).forEach((k) => setStyle(el!, k, hidden[k]));
+    d.body.appendChild(el);
+  }
+  const region = el;
+  region.textContent = "";
+  clearTimeout(ANNOUNCING.get(region));
+  ANNOUNCING.set(
+    region,
+    setTimeout(() => (region.textContent = message), 100),
+  );
+}
+
+// ===== Shadow DOM =====
+
+/** Collect matches in `root`, its shadow root and every nested open shadow root */
+function pierce(root: ParentNode, sel: string, out: Element[]) {
+  const shadow = isElement(root) ? root.shadowRoot : null;
+  if (shadow) pierce(shadow, sel, out);
+  root.querySelectorAll("*").forEach((el) => {
+    if (el.matches(sel)) out.push(el);
+    if (el.shadowRoot) pierce(el.shadowRoot, sel, out);
+  });
+}
+
+// ===== Shortcuts =====
+
+export type KeysOptions = {
+  /** Max pause between the steps of a sequence like "g i" (default: 1000ms) */
+  timeout?: number;
+  /** Also fire while typing in inputs, textareas and contenteditable */
+  inputs?: boolean;
+  /** preventDefault() on a match (default: true) */
+  prevent?: boolean;
+  /** Shown by `shortcuts()`, e.g. in a help overlay */
+  desc?: string;
+};
+
+export type Shortcut = {
+  keys: string;
+  desc?: string;
+  target: Element | Document | DocumentFragment | Window;
+};
+
+type Chord = {
+  key: string;
+  ctrl: boolean;
+  alt: boolean;
+  shift: boolean;
+  meta: boolean;
+};
+
+/** Active bindings, in registration order */
+const SHORTCUTS = new Set<Shortcut>();
+
+const KEY_ALIAS: Record<string, string> = {
+  esc: "escape",
+  space: " ",
+  up: "arrowup",
+  down: "arrowdown",
+  left: "arrowleft",
+  right: "arrowright",
+  del: "delete",
+  return: "enter",
+  plus: "+",
+};
+
+const IS_MAC =
+  typeof navigator !== "undefined" &&
+  /Mac|iP(hone|ad|od)/.test(navigator.platform || navigator.userAgent);
+
+/** "mod+shift+k" → chord; `mod` is Cmd on Apple platforms, Ctrl elsewhere */
+function parseChord(s: string): Chord {
+  const tokens = s.trim().toLowerCase().split("+");
+  let key = tokens.pop() ?? "";
+  if (key === "") {
+    key = "+";
+    tokens.pop();
+  }
+  const has = (...names: string[]) => tokens.some((t) => names.includes(t));
+  const mod = has("mod");
+  return {
+    key: KEY_ALIAS[key] ?? key,
+    ctrl: has("ctrl", "control") || (mod && !IS_MAC),
+    alt: has("alt", "option", "opt"),
+    shift: has("shift"),
+    meta: has("meta", "cmd", "command", "super") || (mod && IS_MAC),
+  };
+}
+
+function chordHit(c: Chord, ev: KeyboardEvent): boolean {
+  if (c.ctrl !== ev.ctrlKey || c.alt !== ev.altKey || c.meta !== ev.metaKey)
+    return false;
+  // shifted symbols ("?", "!") already carry the shift in the key itself
+  const symbol = c.key.length === 1 && !/[a-z0-9]/.test(c.key);
+  if (!symbol && c.shift !== ev.shiftKey) return false;
+  const key = (ev.key ?? "").toLowerCase();
+  if (key === c.key) return true;
+  // the physical key only stands in when the layout gave no plain character
+  // (Option-composed "å", Cyrillic, dead keys); "y" on QWERTZ's KeyZ stays "y"
+  if (/^[\x20-\x7e]$/.test(key)) return false;
+  const code = (ev.code ?? "").toLowerCase();
+  return code === `key${c.key}` || code === `digit${c.key}`;
+}
+
+function isTyping(ev: Event): boolean {
+  const t = ev.target as HTMLElement | null;
+  if (!t || !isElement(t)) return false;
+  if (t.isContentEditable) return true;
+  if (t.localName === "textarea" || t.localName === "select") return true;
+  return (
+    t.localName === "input" &&
+    !/^(button|submit|reset|checkbox|radio|range|color|file|image)$/.test(
+      (t as HTMLInputElement).type,
+    )
+  );
+}
+
+/** List active keyboard shortcuts (for a help overlay) */
+export function shortcuts(): Shortcut[] {
+  return Array.from(SHORTCUTS);
+}
+
+// ===== Focus =====
+
+export type TrapOptions = {
+  /** Element (or selector inside the trap) to focus first; default: first tabbable */
+  initial?: string | Element;
+  /** Return focus to the previously focused element on release (default: true) */
+  restore?: boolean;
+};
+
+export type RoveOptions = {
+  /** Arrow keys that move focus (default: "both") */
+  orientation?: "horizontal" | "vertical" | "both";
+  /** Wrap around at either end (default: true) */
+  loop?: boolean;
+};
+
+const TABBABLE = [
+  "a[href]",
+  "area[href]",
+  "button",
+  "input:not([type=hidden])",
+  "select",
+  "textarea",
+  "iframe",
+  "summary",
+  "audio[controls]",
+  "video[controls]",
+  "[contenteditable]:not([contenteditable=false])",
+  "[tabindex]",
+].join(",");
+
+/** Active traps, innermost last; only the innermost one reacts */
+const TRAPS: Element[] = [];
+
+function tabOrder(el: Element): number {
+  const n = parseInt(el.getAttribute("tabindex") ?? "", 10);
+  return isNaN(n) ? 0 : n;
+}
+
+/** Tabbable descendants of `root` in Tab order (positive tabindex first) */
+function tabbables(root: Element): HTMLElement[] {
+  const all = Array.from(root.querySelectorAll<HTMLElement>(TABBABLE)).filter(
+    (el, _, list) => {
+      if (tabOrder(el) < 0 || (el as HTMLButtonElement).disabled) return false;
+      if (el.closest("[hidden],[inert]")) return false;
+      // one stop per radio group: the checked one, else the first
+      const r = el as HTMLInputElement;
+      if (r.type !== "radio" || !r.name) return true;
+      const group = list.filter(
+        (o) =>
+          (o as HTMLInputElement).type === "radio" &&
+          o.getAttribute("name") === r.name,
+      ) as HTMLInputElement[];
+      return (group.find((o) => o.checked) ?? group[0]) === r;
+    },
+  );
+  const pos = all.filter((el) => tabOrder(el) > 0);
+  pos.sort((a, b) => tabOrder(a) - tabOrder(b));
+  return [...pos, ...all.filter((el) => tabOrder(el) === 0)];
+}
+
+// ===== Keyed lists =====
+
+type Key = string | number;
+
+/** Key and item last rendered into each node managed by `keyed()` */
+const KEYED = new WeakMap<Element, { key: Key; item: unknown }>();
+
+/** Indexes (into `seq`) of a longest increasing subsequence, ignoring -1 */
+function lis(seq: number[]): Set<number> {
+  const tails: number[] = [];
+  const prev: number[] = new Array(seq.length).fill(-1);
+  seq.forEach((v, i) => {
+    if (v < 0) return;
+    let lo = 0;
+    let hi = tails.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (seq[tails[mid]] < v) lo = mid + 1;
+      else hi = mid;
+    }
+    if (lo > 0) prev[i] = tails[lo - 1];
+    tails[lo] = i;
+  });
+  const out = new Set<number>();
+  for (let i = tails[tails.length - 1] ?? -1; i >= 0; i = prev[i]) out.add(i);
+  return out;
+}
+
+function reconcile<T>(
+  parent: Element,
+  items: readonly T[],
+  keyOf: (item: T, i: number) => Key,
+  render: (item: T, i: number) => DomInput | Node,
+  update?: (el: Element, item: T, i: number) => void,
+) {
+  // validate every key before the DOM is touched, so a bad list changes nothing
+  const keys = items.map((item, i) => keyOf(item, i));
+  const seen = new Set<string>();
+  keys.forEach((key) => {
+    if (seen.has(String(key)))
+      throw new Error(`keyed(): duplicate key "${key}"`);
+    seen.add(String(key));
+  });
+
+  // keys are compared as strings so server-rendered `data-key` can be adopted
+  const old = new Map<string, Element>();
+  const order = new Map<Element, number>();
+  Array.from(parent.children).forEach((el, i) => {
+    const key = KEYED.get(el)?.key ?? el.getAttribute("data-key");
+    if (key != null && !old.has(String(key))) old.set(String(key), el);
+    else {
+      release(el);
+      parent.removeChild(el);
+      return;
+    }
+    order.set(el, i);
+  });
+
+  const build = (item: T, i: number) => {
+    const out = render(item, i);
+    const node =
+      typeof out === "string" ? Dom.make(out).first : new Dom(out as any).first;
+    if (!isElement(node))
+      throw new Error("keyed(): render must return an element");
+    return node;
+  };
+
+  const nodes = items.map((item, i) => {
+    const key = keys[i];
+    let el = old.get(String(key));
+    const state = el && KEYED.get(el);
+    if (el && (!state || !Object.is(state.item, item))) {
+      if (update) update(el, item, i);
+      else {
+        const fresh = build(item, i);
+        parent.replaceChild(fresh, el);
+        release(el);
+        el = fresh;
+      }
+    }
+    if (!el) el = build(item, i);
+    KEYED.set(el, { key, item });
+    return el;
+  });
+
+  old.forEach((el, key) => {
+    if (seen.has(key)) return;
+    release(el);
+    el.parentNode?.removeChild(el);
+  });
+
+  // keep the longest already-ordered run in place, move/insert the rest
+  const stay = lis(nodes.map((el) => order.get(el) ?? -1));
+  let anchor: Node | null = null;
+  for (let i = nodes.length - 1; i >= 0; i--) {
+    const el = nodes[i];
+    if (!stay.has(i) || el.parentNode !== parent)
+      parent.insertBefore(el, anchor);
+    anchor = el;
+  }
+}
+
+// ===== Plugins =====
+
+/**
+ * A set of methods added to Dom.prototype by `Dom.use()`. Declare them for
+ * TypeScript by module augmentation:
+ *
+ *   declare module "marwajs-dom" {
+ *     interface Dom<T> { wiggle(ms?: number): this }
+ *   }
+ */
+export type Plugin = {
+  name: string;
+  /** Installed on Dom.prototype; `this` is the set they are called on */
+  methods?: Record<string, (this: Dom<any>, ...args: any[]) => unknown>;
+  /** Runs on install; may return a cleanup for uninstall */
+  setup?: () => void | (() => void);
+};
+
+/** Installed plugins by name, with their uninstall */
+const PLUGINS = new Map<string, { plugin: Plugin; uninstall: () => void }>();
+
+/** Plugin that owns each added method */
+const OWNERS = new Map<string, string>();
+
 /** Core collection */
-export class Dom {
-  readonly list: (Element | Document | Window)[];
+export class Dom<T extends Item = Element> {
+  readonly list: T[];
 
-  constructor(input?: DomInput, root: Document | Element = document) {
+  constructor(input?: string | T | ArrayLike<T> | Dom<T>, root?: ParentNode) {
     if (!input) {
       this.list = [];
     } else if (typeof input === "string") {
       this.list =
-        input.trim() === "" ? [] : Array.from(root.querySelectorAll(input));
+        input.trim() === ""
+          ? []
+          : (Array.from(
+              (root ?? doc()).querySelectorAll(input),
+            ) as Item[] as T[]);
     } else if (input instanceof Dom) {
       this.list = input.list.slice();
-    } else if (isElement(input) || input === document || input === window) {
-      this.list = [input];
+    } else if (
+      isElement(input) ||
+      isFragment(input) ||
+      (input as Node).nodeType === 9 ||
+      isWindow(input)
+    ) {
+      this.list = [input as T];
     } else if ((input as any).length != null) {
-      this.list = toArray<Element>(input as any);
+      this.list = toArray<T>(input as ArrayLike<T>);
     } else {
       this.list = [];
     }
   }
 
   /** Make from anything */
-  static of(input?: DomInput, root?: Document | Element) {
-    return new Dom(input, root);
+  static of<K extends HTMLTag>(
+    sel: K,
+    root?: ParentNode,
+  ): Dom<HTMLElementTagNameMap[K]>;
+  static of<K extends SVGTag>(
+    sel: K,
+    root?: ParentNode,
+  ): Dom<SVGElementTagNameMap[K]>;
+  static of<T extends Item>(
+    input?: string | T | ArrayLike<T> | Dom<T>,
+    root?: ParentNode,
+  ): Dom<T>;
+  static of(input?: DomInput, root?: ParentNode): Dom<Item>;
+  static of(input?: DomInput, root?: ParentNode): Dom<Item> {
+    return new Dom<Item>(input, root);
+  }
+
+  /**
+   * Install a plugin's methods synchronously. Throws if a method name is
+   * already taken by core or another plugin; installing the same plugin again
+   * is a no-op. Returns an uninstall that removes the methods again.
+   */
+  static use(plugin: Plugin): () => void {
+    const hit = PLUGINS.get(plugin.name);
+    if (hit?.plugin === plugin) return hit.uninstall;
+    if (hit)
+      throw new Error(`use: a plugin named "${plugin.name}" is installed`);
+    const proto = Dom.prototype as any;
+    const names = Object.keys(plugin.methods ?? {});
+    names.forEach((k) => {
+      if (!(k in proto)) return;
+      const owner = OWNERS.get(k);
+      throw new Error(
+        `use: "${plugin.name}" cannot add ${k}() — already defined by ${
+          owner ? `plugin "${owner}"` : "Dom"
+        }`,
+      );
+    });
+    names.forEach((k) => {
+      Object.defineProperty(proto, k, {
+        value: plugin.methods![k],
+        configurable: true,
+        writable: true,
+      });
+      OWNERS.set(k, plugin.name);
+    });
+    const cleanup = plugin.setup?.();
+    const uninstall = () => {
+      if (PLUGINS.get(plugin.name)?.plugin !== plugin) return;
+      PLUGINS.delete(plugin.name);
+      names.forEach((k) => {
+        delete proto[k];
+        OWNERS.delete(k);
+      });
+      if (typeof cleanup === "function") cleanup();
+    };
+    PLUGINS.set(plugin.name, { plugin, uninstall });
+    return uninstall;
   }
 
-  /** Create element(s) from HTML string or tag name */
+  /** Create element(s) from HTML string (sanitized by `policy`) or tag name */
+  static make(html: `<${string}`, policy?: SanitizePolicy): Dom;
+  static make<K extends HTMLTag>(
+    tag: K,
+    attrs?: Record<string, any>,
+  ): Dom<HTMLElementTagNameMap[K]>;
+  static make(htmlOrTag: string, attrs?: Record<string, any>): Dom;
   static make(htmlOrTag: string, attrs?: Record<string, any>): Dom {
     if (htmlOrTag.startsWith("<")) {
-      const tpl = document.createElement("template");
-      tpl.innerHTML = sanitizeHTML(htmlOrTag.trim());
-      return new Dom(Array.from(tpl.content.children) as Element[]);
+      const frag = purify(htmlOrTag.trim(), attrs as SanitizePolicy);
+      return new Dom(Array.from(frag.children) as Element[]);
     }
-    const el = document.createElement(htmlOrTag);
+    const el = doc().createElement(htmlOrTag);
     const d = new Dom(el);
     if (attrs) d.attr(attrs);
     return d;
   }
 
   // ===== Collection helpers =====
-  get first(): Element | Document | Window | undefined {
+  get first(): T | undefined {
     return this.list[0];
   }
 
@@ -130,79 +2389,284 @@ export class Dom {
     return this.list.length;
   }
 
-  at(i: number): Dom {
+  at(i: number): Dom<T> {
     const el = this.list.at(i);
-    return new Dom(el && isElement(el) ? (el as Element) : undefined);
+    return new Dom<T>(el && isElement(el) ? el : undefined);
   }
 
-  each(fn: (el: Element, i: number) => void): this {
-    this.list.forEach((e, i) => isElement(e) && fn(e, i));
+  each(fn: (el: ElementOf<T>, i: number) => void): this {
+    this.list.forEach((e, i) => isElement(e) && fn(e as ElementOf<T>, i));
     return this;
   }
 
-  map<T>(fn: (el: Element, i: number) => T): T[] {
-    const out: T[] = [];
-    this.list.forEach((e, i) => isElement(e) && out.push(fn(e, i)));
+  map<R>(fn: (el: ElementOf<T>, i: number) => R): R[] {
+    const out: R[] = [];
+    this.list.forEach(
+      (e, i) => isElement(e) && out.push(fn(e as ElementOf<T>, i)),
+    );
     return out;
   }
 
   // ===== Query =====
+  // Every traversal returns a deduped set in document order.
+
+  find<K extends HTMLTag>(sel: K): Dom<HTMLElementTagNameMap[K]>;
+  find<K extends SVGTag>(sel: K): Dom<SVGElementTagNameMap[K]>;
+  find(sel: string): Dom;
   find(sel: string): Dom {
+    // "x-card >>> .btn": everything after >>> is matched through shadow roots
+    if (sel.includes(">>>")) {
+      const [head, ...rest] = sel.split(">>>").map((p) => p.trim());
+      let cur: Dom<Item> = head ? this.find(head) : this;
+      rest.forEach((p) => (cur = cur.deep(p)));
+      return cur as Dom;
+    }
+    const found: Element[] = [];
+    this.list.forEach((n) => {
+      if (n && "querySelectorAll" in n)
+        found.push(...Array.from(n.querySelectorAll(sel)));
+    });
+    return new Dom(ordered(found));
+  }
+
+  /**
+   * Descendants matching `sel`, including inside open shadow roots at any
+   * depth. The selector is matched within each tree, so its combinators do not
+   * cross a shadow boundary.
+   */
+  deep(sel: string): Dom {
     const found: Element[] = [];
-    this.each((el) => found.push(...Array.from(el.querySelectorAll(sel))));
-    return new Dom(found);
+    this.list.forEach((n) => {
+      if (n && "querySelectorAll" in n) pierce(n, sel, found);
+    });
+    return new Dom(ordered(found));
+  }
+
+  /** Shadow host of each element's tree; with `sel`, the nearest matching host outward */
+  host(sel?: string): Dom {
+    const out: Element[] = [];
+    this.list.forEach((n) => {
+      let node: Node | undefined = isFragment(n)
+        ? n
+        : isElement(n)
+          ? n.getRootNode()
+          : undefined;
+      while (node && (node as ShadowRoot).host) {
+        const h = (node as ShadowRoot).host;
+        if (!sel || h.matches(sel)) return out.push(h);
+        node = h.getRootNode();
+      }
+    });
+    return new Dom(ordered(out));
   }
 
-  near(sel: string): Dom {
-    // siblings
+  /** Siblings matching `sel`; "before"/"after" keeps only preceding/following ones */
+  near(sel: string, dir?: "before" | "after"): Dom {
     const out: Element[] = [];
     this.each((el) => {
       const parent = el.parentElement;
       if (!parent) return;
-      out.push(
-        ...Array.from(parent.children).filter(
-          (x) => x !== el && x.matches(sel),
-        ),
-      );
+      const sibs = Array.from(parent.children);
+      const i = sibs.indexOf(el);
+      const range =
+        dir === "before"
+          ? sibs.slice(0, i)
+          : dir === "after"
+            ? sibs.slice(i + 1)
+            : sibs.filter((x) => x !== el);
+      out.push(...range.filter((x) => x.matches(sel)));
     });
-    return new Dom(out);
+    return new Dom(ordered(out));
   }
 
-  root(sel?: string): Dom {
-    if (!sel) return new Dom(document);
-    return new Dom(document.querySelectorAll(sel));
+  root(): Dom<Document>;
+  root(sel: string): Dom;
+  root(sel?: string): Dom<Item> {
+    const d = docOf(this.first);
+    if (!sel) return new Dom<Item>(d);
+    return new Dom(d.querySelectorAll(sel));
   }
 
-  up(sel: string): Dom {
+  /** Closest ancestor-or-self matching `sel`, never looking outside `within` */
+  up(sel: string, within?: string | Element | Dom): Dom {
+    const bound = within === undefined ? undefined : matcher(within);
     const out: Element[] = [];
     this.each((el) => {
-      const m = el.closest(sel);
-      if (m) out.push(m);
+      for (let cur: Element | null = el; cur; cur = cur.parentElement) {
+        if (cur.matches(sel)) return out.push(cur);
+        if (bound?.(cur, 0)) return;
+      }
     });
-    return new Dom(out);
+    return new Dom(ordered(out));
+  }
+
+  /** Parent elements (optionally only those matching `sel`) */
+  parent(sel?: string): Dom {
+    const out: Element[] = [];
+    this.each((el) => {
+      const p = el.parentElement;
+      if (p && (!sel || p.matches(sel))) out.push(p);
+    });
+    return new Dom(ordered(out));
+  }
+
+  /** Element children (optionally only those matching `sel`) */
+  children(sel?: string): Dom {
+    const out: Element[] = [];
+    this.each((el) =>
+      out.push(
+        ...Array.from(el.children).filter((c) => !sel || c.matches(sel)),
+      ),
+    );
+    return new Dom(ordered(out));
+  }
+
+  /**
+   * Next sibling (if it matches `sel`). With `until`, every following sibling
+   * up to — not including — the first one matching `until`, filtered by `sel`.
+   */
+  next(sel?: string, until?: string): Dom {
+    return this.step("nextElementSibling", sel, until);
+  }
+
+  /** Previous sibling; see `next()` */
+  prev(sel?: string, until?: string): Dom {
+    return this.step("previousElementSibling", sel, until);
+  }
+
+  private step(
+    dir: "nextElementSibling" | "previousElementSibling",
+    sel?: string,
+    until?: string,
+  ): Dom {
+    const out: Element[] = [];
+    this.each((el) => {
+      let cur = el[dir];
+      if (until === undefined) {
+        if (cur && (!sel || cur.matches(sel))) out.push(cur);
+        return;
+      }
+      for (; cur && !cur.matches(until); cur = cur[dir])
+        if (!sel || cur.matches(sel)) out.push(cur);
+    });
+    return new Dom(ordered(out));
+  }
+
+  /** Elements matching a selector or predicate */
+  filter(test: string | ((el: ElementOf<T>, i: number) => boolean)): Dom<T> {
+    const hit = matcher(test);
+    const out: T[] = [];
+    this.each((el, i) => hit(el, i) && out.push(el as T));
+    return new Dom<T>(out);
+  }
+
+  /** Elements NOT matching a selector, predicate, element or set */
+  not(
+    test:
+      | string
+      | Element
+      | Dom<Item>
+      | ((el: ElementOf<T>, i: number) => boolean),
+  ): Dom<T> {
+    const hit = matcher(test);
+    const out: T[] = [];
+    this.each((el, i) => !hit(el, i) && out.push(el as T));
+    return new Dom<T>(out);
+  }
+
+  /** True if any element matches a selector, predicate, element or set */
+  is(
+    test:
+      | string
+      | Element
+      | Dom<Item>
+      | ((el: ElementOf<T>, i: number) => boolean),
+  ): boolean {
+    const hit = matcher(test);
+    return this.map(hit).some(Boolean);
+  }
+
+  /**
+   * Without arguments: position of the first element among its element
+   * siblings. Otherwise the position in this set of the first element matching
+   * the selector, or of the given element/set. -1 when absent.
+   */
+  index(of?: string | Element | Dom<Item>): number {
+    if (of === undefined) {
+      const el = this.first;
+      const parent = isElement(el) ? el.parentElement : null;
+      return parent ? Array.from(parent.children).indexOf(el as Element) : -1;
+    }
+    if (typeof of === "string")
+      return this.list.findIndex((el) => isElement(el) && el.matches(of));
+    const target = of instanceof Dom ? of.first : of;
+    return target ? this.list.indexOf(target as T) : -1;
+  }
+
+  slice(start?: number, end?: number): Dom<T> {
+    return new Dom<T>(this.list.slice(start, end));
+  }
+
+  /** This set plus others, deduped, elements in document order */
+  union<U extends Item = Element>(
+    ...inputs: (string | U | ArrayLike<U> | Dom<U>)[]
+  ): Dom<T | U> {
+    const all = [this, ...inputs].flatMap((x) => new Dom<Item>(x).list);
+    const others = Array.from(new Set(all.filter((x) => !isElement(x))));
+    return new Dom([...others, ...ordered(all.filter(isElement))] as (T | U)[]);
   }
 
   // ===== Content =====
-  text(v?: Maybe<string>): this | string {
+  text(v?: Bindable<Maybe<string | number>>): this | string {
     if (v === undefined) {
       const el = this.first as Element | undefined;
       return el ? (el.textContent ?? "") : "";
     }
-    return this.each((el) => (el.textContent = v ?? ""));
+    return this.each((el) =>
+      bind(el, "text", v, (x) => {
+        Array.from(el.children).forEach(unbind);
+        el.textContent = x == null ? "" : String(x);
+      }),
+    );
+  }
+
+  html(v?: Maybe<string>, policy?: SanitizePolicy): this | string {
+    if (v === undefined) {
+      const el = this.first as Element | undefined;
+      return el ? (el.innerHTML ?? "") : "";
+    }
+    this.each((el) => {
+      drop(el, "text");
+      Array.from(el.children).forEach(unbind);
+    });
+    if (policy?.trusted) return this.each((el) => (el.innerHTML = v ?? ""));
+    // insert the cleaned nodes directly — re-serializing would allow mutation XSS
+    const frag = purify(v ?? "", policy, docOf(this.first));
+    return this.each((el) => {
+      el.textContent = "";
+      el.appendChild(frag.cloneNode(true));
+    });
   }
 
-  html(v?: Maybe<string>): this | string {
-    if (v === undefined) {
-      const el = this.first as Element | undefined;
-      return el ? (el.innerHTML ?? "") : "";
-    }
-    return this.each((el) => (el.innerHTML = sanitizeHTML(v ?? "")));
+  /** Markup of the whole set, e.g. to send server-rendered HTML */
+  outer(): string {
+    return this.list.map(serialize).join("");
   }
 
+  /** Same as outer(), so a set can be dropped into a string */
+  toString(): string {
+    return this.outer();
+  }
+
+  /** Value of the first element; "" for an empty set, null without a `value` */
+  val(this: Dom<Valued>): string;
+  val(): string | null;
+  val(v: Maybe<string>): this;
   val(v?: Maybe<string>): this | string | null {
     const el = this.first as any;
     if (v === undefined) {
-      return el && "value" in el ? (el.value as string) : null;
+      if (!el) return "";
+      return "value" in el ? String(el.value) : null;
     }
     this.each((e) => {
       if ("value" in (e as any)) (e as any).value = v ?? "";
@@ -210,22 +2674,91 @@ export class Dom {
     return this;
   }
 
+  // ===== Selection =====
+  /**
+   * Caret offset in the first input/textarea, or in a contenteditable's
+   * text; set it (clamped) on each element with caret(n).
+   */
+  caret(): number;
+  caret(pos: number): this;
+  caret(pos?: number): this | number {
+    if (pos === undefined) {
+      const el = this.first;
+      return isElement(el) ? readRange(el).end : 0;
+    }
+    return this.select(pos, pos);
+  }
+
+  /** Selected range of the first element as text offsets */
+  selection(): TextRange {
+    const el = this.first;
+    return isElement(el) ? readRange(el) : { start: 0, end: 0, text: "" };
+  }
+
+  /** Select text by offsets (default: everything) */
+  select(start = 0, end = Infinity): this {
+    return this.each((el) => {
+      const len = isField(el) ? el.value.length : (el.textContent ?? "").length;
+      const a = Math.min(Math.max(0, start), len);
+      writeRange(el, a, Math.min(Math.max(a, end), len));
+    });
+  }
+
+  /**
+   * Replace the selection (or insert at the caret) like typing would: a
+   * cancelable `beforeinput`, then an `input` event with inputType
+   * "insertText"; the caret ends up after the text.
+   */
+  insert(text: string): this {
+    return this.each((el) => insertText(el, text));
+  }
+
+  /** Caret position of the first element in viewport coordinates, for popups */
+  caretRect(): CaretRect | null {
+    const el = this.first;
+    if (!isElement(el)) return null;
+    if (isField(el)) return fieldCaret(el, readRange(el).end);
+    return rangeCaret(el);
+  }
+
+  /**
+   * Read every named control into a nested object: `user[address][city]`
+   * nests, repeated names and checkbox groups become arrays, numbers are
+   * numbers and single checkboxes booleans. Disabled controls are skipped.
+   */
+  form<T extends FormValues = FormValues>(): T;
+  /** Fill every matching control from an object, FormData or URLSearchParams */
+  form(values: FormValues | FormData | URLSearchParams): this;
+  form(values?: FormValues | FormData | URLSearchParams): this | FormValues {
+    if (values === undefined) {
+      const el = this.first;
+      return isElement(el) ? readForm(el) : {};
+    }
+    const obj =
+      typeof (values as URLSearchParams).getAll === "function"
+        ? fromEntries(values as Iterable<[string, FormDataEntryValue]>)
+        : (values as FormValues);
+    return this.each((el) => fillForm(el, obj));
+  }
+
   // ===== Attrs & Data =====
-  attr(name: string, value?: Maybe<string>): this | string | null;
-  attr(map: Record<string, Maybe<string>>): this;
-  attr(nameOrMap: any, value?: Maybe<string>): this | string | null {
+  attr(name: string, value?: Bindable<Maybe<string>>): this | string | null;
+  attr(map: Record<string, Bindable<Maybe<string>>>): this;
+  attr(nameOrMap: any, value?: Bindable<Maybe<string>>): this | string | null {
     if (typeof nameOrMap === "string") {
       const k = nameOrMap;
       if (value === undefined) {
         const el = this.first as Element | undefined;
         return el ? el.getAttribute(k) : null;
       }
-      return this.each((el) => {
-        if (value == null) el.removeAttribute(k);
-        else el.setAttribute(k, String(value));
-      });
+      return this.each((el) =>
+        bind(el, `attr:${k}`, value, (x) => {
+          if (x == null) el.removeAttribute(k);
+          else el.setAttribute(k, String(x));
+        }),
+      );
     } else if (nameOrMap && typeof nameOrMap === "object") {
-      const obj = nameOrMap as Record<string, Maybe<string>>;
+      const obj = nameOrMap as Record<string, Bindable<Maybe<string>>>;
       Object.keys(obj).forEach((k) => this.attr(k, obj[k]));
       return this;
     }
@@ -251,9 +2784,61 @@ export class Dom {
     return this;
   }
 
+  /**
+   * ARIA states and properties by name without the prefix, like data():
+   * aria({ expanded: true, controls: menu }). Booleans are written as
+   * "true"/"false", elements and lists as id references; reading gives the
+   * typed value back (or null when the attribute is missing).
+   */
+  aria<K extends keyof AriaValues>(name: K): AriaValues[K] | null;
+  aria<K extends keyof AriaValues>(name: K, value: AriaInput<K>): this;
+  aria(map: { [K in keyof AriaValues]?: AriaInput<K> }): this;
+  aria(nameOrMap: any, ...rest: unknown[]): this | unknown {
+    if (typeof nameOrMap === "string") {
+      const name = nameOrMap.toLowerCase();
+      const k = `aria-${name}`;
+      if (!rest.length) {
+        const raw = isElement(this.first) ? this.first.getAttribute(k) : null;
+        return raw == null ? null : ariaRead(name, raw);
+      }
+      const v = rest[0];
+      return this.each((el) => {
+        if (v == null) el.removeAttribute(k);
+        else el.setAttribute(k, ariaWrite(v));
+      });
+    } else if (nameOrMap && typeof nameOrMap === "object") {
+      const obj = nameOrMap as Record<string, unknown>;
+      Object.keys(obj).forEach((k) => this.aria(k as any, obj[k] as any));
+    }
+    return this;
+  }
+
+  /** Role of the first element: its role attribute, else the implicit one */
+  role(): string | null;
+  /** Descendants with this role, explicit (`role="tab"`) or implicit (`<button>`) */
+  role(name: string): Dom;
+  role(name?: string): Dom | string | null {
+    if (name === undefined)
+      return isElement(this.first) ? roleOf(this.first) : null;
+    return this.find(roleSelector(name));
+  }
+
   // ===== Class (single-word, multi-mode) =====
   /** class("active") → add; class("!active") → remove; class("?active") → toggle */
-  class(token: string): this {
+  class(token: string): this;
+  /** class({ active: isOn }) → toggle each name by a boolean or signal */
+  class(map: Record<string, Bindable<boolean>>): this;
+  class(token: string | Record<string, Bindable<boolean>>): this {
+    if (token && typeof token === "object") {
+      const map = token;
+      return this.each((el) =>
+        Object.keys(map).forEach((name) =>
+          bind(el, `class:${name}`, map[name], (on) =>
+            el.classList.toggle(name, !!on),
+          ),
+        ),
+      );
+    }
     if (
       !token ||
       (!token.startsWith("!") && !token.startsWith("?") && token.trim() === "")
@@ -262,40 +2847,96 @@ export class Dom {
     const mode =
       token[0] === "!" ? "remove" : token[0] === "?" ? "toggle" : "add";
     const name = token[0] === "!" || token[0] === "?" ? token.slice(1) : token;
-    return this.each((el) => el.classList[mode](name.trim()));
+    return this.each((el) => {
+      drop(el, `class:${name.trim()}`);
+      el.classList[mode](name.trim());
+    });
   }
 
   // ===== Style =====
-  css(name: string, value?: Maybe<StyleValue>): this;
-  css(map: Record<string, Maybe<StyleValue>>): this;
-  css(nameOrMap: any, value?: Maybe<StyleValue>): this {
+  /** Computed value of the first element ("" for an empty set) */
+  css(name: string): string;
+  /** Computed values of the first element, keyed as given */
+  css(names: string[]): Record<string, string>;
+  /**
+   * Set (or bind) an inline style. Numbers get `px` except on unitless
+   * properties, `--vars` are set verbatim, a trailing "!important" sets the
+   * priority, and null/"" removes the property.
+   */
+  css(name: string, value: Bindable<Maybe<StyleValue>>): this;
+  css(map: Record<string, Bindable<Maybe<StyleValue>>>): this;
+  css(
+    nameOrMap: any,
+    value?: Bindable<Maybe<StyleValue>>,
+  ): this | string | Record<string, string> {
+    if (Array.isArray(nameOrMap)) {
+      const el = this.first;
+      const out: Record<string, string> = {};
+      nameOrMap.forEach(
+        (k: string) => (out[k] = isElement(el) ? readStyle(el, k) : ""),
+      );
+      return out;
+    }
+    if (typeof nameOrMap === "string" && value === undefined) {
+      const el = this.first;
+      return isElement(el) ? readStyle(el, nameOrMap) : "";
+    }
     if (typeof nameOrMap === "string") {
-      return this.each((el) => setStyle(el, nameOrMap, value as any));
+      return this.each((el) =>
+        bind(el, `css:${nameOrMap}`, value, (x) => setStyle(el, nameOrMap, x)),
+      );
     } else if (nameOrMap && typeof nameOrMap === "object") {
-      const obj = nameOrMap as Record<string, Maybe<StyleValue>>;
+      const obj = nameOrMap as Record<string, Bindable<Maybe<StyleValue>>>;
       return this.each((el) => {
-        Object.keys(obj).forEach((k) => setStyle(el, k, obj[k] as any));
+        Object.keys(obj).forEach((k) =>
+          bind(el, `css:${k}`, obj[k], (x) => setStyle(el, k, x)),
+        );
       });
     }
     return this;
   }
 
+  /**
+   * Animate with CSS classes when show()/flip()/add()/pre() reveal or insert
+   * these elements, and before hide()/rm() take them away:
+   * `name-enter-from`, `-enter-active`, `-enter-to` and the matching
+   * `-leave-*`. transition(null) turns it off.
+   */
+  transition(name: string | null, opts: TransitionOptions = {}): this {
+    return this.each((el) => {
+      if (name) TRANSITIONS.set(el, { name, ...opts });
+      else TRANSITIONS.delete(el);
+    });
+  }
+
   show(): this {
-    return this.each((el) => setStyle(el, "display", ""));
+    return this.each((el) => {
+      const h = el as HTMLElement;
+      if (h.style.display === "none" || RUNNING.get(el)?.phase === "leave")
+        transit(el, "enter");
+      setStyle(el, "display", "");
+    });
   }
 
+  /** Hide each element, after its leave transition if it has one */
   hide(): this {
-    return this.each((el) => setStyle(el, "display", "none"));
+    return this.each((el) => {
+      const h = el as HTMLElement;
+      if (h.style.display === "none" || RUNNING.get(el)?.phase === "leave")
+        return;
+      transit(el, "leave", () => setStyle(el, "display", "none"));
+    });
   }
 
   flip(show?: boolean): this {
-    return show === undefined
-      ? this.each(
-          (el) => ((el as HTMLElement).hidden = !(el as HTMLElement).hidden),
-        )
-      : show
-        ? this.show()
-        : this.hide();
+    if (show !== undefined) return show ? this.show() : this.hide();
+    return this.each((el) => {
+      const h = el as HTMLElement;
+      if (h.hidden) {
+        transit(el, "enter");
+        h.hidden = false;
+      } else transit(el, "leave", () => (h.hidden = true));
+    });
   }
 
   // ===== Tree ops =====
@@ -303,25 +2944,31 @@ export class Dom {
     const nodes =
       child instanceof Dom
         ? child.list
-        : isElement(child) || child === document || child === window
+        : isNode(child) || isWindow(child)
           ? [child as any]
-          : child instanceof Node
-            ? [child]
-            : new Dom(child as any).list;
+          : new Dom(child as any).list;
 
-    return this.each((el) => nodes.forEach((n) => el.appendChild(n as any)));
+    return this.each((el) =>
+      nodes.forEach((n) => {
+        if (isElement(n)) transit(n, "enter");
+        el.appendChild(n as any);
+      }),
+    );
   }
 
   pre(child: DomInput | Node): this {
     const nodes =
       child instanceof Dom
         ? child.list
-        : isElement(child) || child instanceof Node
+        : isNode(child)
           ? [child as any]
           : new Dom(child as any).list;
 
     return this.each((el) =>
-      nodes.forEach((n) => el.insertBefore(n as any, el.firstChild)),
+      nodes.forEach((n) => {
+        if (isElement(n)) transit(n, "enter");
+        el.insertBefore(n as any, el.firstChild);
+      }),
     );
   }
 
@@ -329,7 +2976,7 @@ export class Dom {
     const nodes =
       node instanceof Dom
         ? node.list
-        : isElement(node) || node instanceof Node
+        : isNode(node)
           ? [node as any]
           : new Dom(node as any).list;
     return this.each((el) =>
@@ -341,7 +2988,7 @@ export class Dom {
     const nodes =
       node instanceof Dom
         ? node.list
-        : isElement(node) || node instanceof Node
+        : isNode(node)
           ? [node as any]
           : new Dom(node as any).list;
     return this.each((el) =>
@@ -357,7 +3004,7 @@ export class Dom {
         "wrap() requires a single tag name (e.g. 'div' or 'span'), not a selector",
       );
     return this.each((el) => {
-      const w = Dom.make(tagName).first as Element;
+      const w = el.ownerDocument.createElement(tagName);
       if (!w || !el.parentNode) return;
       el.parentNode.insertBefore(w, el);
       w.appendChild(el);
@@ -373,12 +3020,72 @@ export class Dom {
     });
   }
 
+  /**
+   * Keyed list rendering (`list` is taken by the element array): diff `items` against the children by key, inserting,
+   * moving and removing only what changed. `render` runs for new items; `update`
+   * (or `render`, replacing the node) runs when the item at a key is a new value.
+   */
+  keyed<T>(
+    items: readonly T[],
+    key: keyof T | ((item: T, i: number) => Key),
+    render: (item: T, i: number) => DomInput | Node,
+    update?: (el: Element, item: T, i: number) => void,
+  ): this {
+    const keyOf =
+      typeof key === "function" ? key : (item: T) => (item as any)[key] as Key;
+    return this.each((el) =>
+      within(el, () => reconcile(el, items, keyOf, render, update)),
+    );
+  }
+
+  /**
+   * Render an `html\`\`` view into each element (or shadow root). When the
+   * same template is already mounted there, only its changed dynamic parts are
+   * patched.
+   */
+  render(view: Dom): this {
+    const next = VIEWS.get(view);
+    (this.list as Item[]).filter(isParent).forEach((el, i) => {
+      const cur = MOUNTED.get(el);
+      if (next && cur?.strings === next.strings) {
+        patch(cur, next.values);
+        return;
+      }
+      const inst = !next
+        ? undefined
+        : i > 0
+          ? within(el, () => instantiate(next.strings, next.values))
+          : viewOf(view);
+      Array.from(el.children).forEach(release);
+      el.textContent = "";
+      const nodes = inst
+        ? inst.nodes
+        : (view.list as unknown as Node[]).map((n) =>
+            i > 0 ? n.cloneNode(true) : n,
+          );
+      nodes.forEach((n) => el.appendChild(n));
+      if (inst) MOUNTED.set(el, inst);
+      else MOUNTED.delete(el);
+    });
+    return this;
+  }
+
   empty(): this {
-    return this.each((el) => (el.innerHTML = ""));
+    return this.each((el) => {
+      drop(el, "text");
+      Array.from(el.children).forEach(unbind);
+      el.innerHTML = "";
+    });
   }
 
+  /** Detach each element, after its leave transition if it has one */
   rm(): this {
-    this.each((el) => el.parentNode?.removeChild(el));
+    this.each((el) =>
+      transit(el, "leave", () => {
+        unbind(el);
+        el.parentNode?.removeChild(el);
+      }),
+    );
     return this;
   }
 
@@ -393,13 +3100,14 @@ export class Dom {
     const nodes =
       node instanceof Dom
         ? node.list
-        : isElement(node) || node instanceof Node
+        : isNode(node)
           ? [node as any]
-          : Dom.make(node as string).list;
+          : within(this.first, () => Dom.make(node as string).list);
     return this.each((el) => {
       const parent = el.parentNode;
       if (!parent) return;
       nodes.forEach((n) => parent.insertBefore(n as any, el));
+      unbind(el);
       el.remove();
     });
   }
@@ -427,108 +3135,856 @@ export class Dom {
     return this;
   }
 
+  /** Position of the first element relative to the document */
+  offset(): { top: number; left: number } | null {
+    const el = this.first;
+    if (!el) return null;
+    if (!isElement(el)) return { top: 0, left: 0 };
+    const win = el.ownerDocument.defaultView;
+    const r = el.getBoundingClientRect();
+    return {
+      top: r.top + (win?.scrollY ?? 0),
+      left: r.left + (win?.scrollX ?? 0),
+    };
+  }
+
+  /**
+   * Size of the first element's content, padding, border (default) or margin
+   * box; the viewport for a window, the scrollable page for a document.
+   */
+  size(box?: Box): Size;
+  /** Set width/height so that `box` (default: border) measures the given size */
+  size(v: Partial<Size>, box?: Box): this;
+  size(v?: Box | Partial<Size>, box: Box = "border"): this | Size {
+    if (v === undefined || typeof v === "string")
+      return sizeOf(this.first, v ?? "border");
+    return this.each((el) => resize(el, v, box));
+  }
+
+  /**
+   * Whether at least `ratio` (0–1) of the first element is visible in the
+   * viewport or `within` a scroller; 0 (default) means any part.
+   */
+  inView(ratio = 0, within?: string | Element | Document | Window): boolean {
+    const el = this.first;
+    if (!isElement(el)) return false;
+    const s = within ? scrollerFrom(within) : el.ownerDocument.defaultView;
+    if (!s) return false;
+    const v = viewport(s);
+    const r = el.getBoundingClientRect();
+    const w = Math.min(r.right, v.right) - Math.max(r.left, v.left);
+    const h = Math.min(r.bottom, v.bottom) - Math.max(r.top, v.top);
+    if (w < 0 || h < 0) return false;
+    const area = r.width * r.height;
+    if (!area) return ratio <= 0; // a zero-size element inside the viewport
+    const seen = (w * h) / area;
+    return ratio > 0 ? seen >= ratio : seen > 0;
+  }
+
+  /**
+   * Scroll each scroller (element, document or window) to a position, or so
+   * that `target` (element or selector inside it) sits at its top-left edge.
+   * With `container`, that scroller moves instead of the set.
+   */
+  scrollTo(
+    target: number | { top?: number; left?: number } | string | Element,
+    opts: ScrollOptions = {},
+  ): this {
+    const off = offsetOf(opts.offset);
+    const scrollers = opts.container
+      ? [scrollerFrom(opts.container)]
+      : this.list.map(scrollerOf);
+    scrollers.forEach((s) => {
+      if (!s) return;
+      let pos: { top?: number; left?: number };
+      if (typeof target === "number") pos = { top: target };
+      else if (typeof target === "string" || isElement(target)) {
+        const el =
+          typeof target === "string"
+            ? (isWindow(s) ? s.document : s).querySelector(target)
+            : target;
+        if (!el) return;
+        const r = el.getBoundingClientRect();
+        const v = viewport(s);
+        const cur = scrollPos(s);
+        pos = {
+          top: r.top - v.top + cur.top,
+          left: r.left - v.left + cur.left,
+        };
+      } else pos = target;
+      scrollSet(
+        s,
+        pos.top === undefined ? undefined : pos.top - off.top,
+        pos.left === undefined ? undefined : pos.left - off.left,
+        opts.smooth,
+      );
+    });
+    return this;
+  }
+
+  /** Scroll the first element into view of its (or the given) container */
+  reveal(opts: RevealOptions = {}): this {
+    const el = this.first;
+    if (!isElement(el)) return this;
+    const s = opts.container ? scrollerFrom(opts.container) : scrollParent(el);
+    if (!s) return this;
+    const { align = "nearest" } = opts;
+    const off = offsetOf(opts.offset);
+    const v = viewport(s);
+    const r = el.getBoundingClientRect();
+    // how far to scroll along one axis
+    const delta = (
+      start: number,
+      size: number,
+      vStart: number,
+      vEnd: number,
+      pad: number,
+    ) => {
+      const before = start - (vStart + pad);
+      const after = start + size - vEnd;
+      if (align === "start") return before;
+      if (align === "end") return after;
+      if (align === "center")
+        return start + size / 2 - (vStart + pad + vEnd) / 2;
+      if (before < 0) return before;
+      return after > 0 ? Math.min(after, before) : 0;
+    };
+    const dy = delta(r.top, r.height, v.top, v.bottom, off.top);
+    const dx = delta(r.left, r.width, v.left, v.right, off.left);
+    if (!dx && !dy) return this;
+    const cur = scrollPos(s);
+    scrollSet(s, cur.top + dy, cur.left + dx, opts.smooth);
+    return this;
+  }
+
   // ===== Events =====
+  /** on("click", h) or namespaced on("click.menu", h) — see off(".menu") */
   on<K extends keyof EventMap>(
-    type: K,
+    type: EventSpec<K>,
     handler: (ev: EventMap[K]) => void,
     opts?: OnOptions,
   ): this {
     this.list.forEach((t) => {
       if (!t || !("addEventListener" in t)) return;
-      t.addEventListener(type, handler as EventListener, opts);
-      regGetKey(t, type as string).add(handler as EventListener);
+      listen(t, type, handler, handler as EventListener, opts);
     });
     return this;
   }
 
-  off<K extends keyof EventMap>(
-    type?: K,
-    handler?: (ev: EventMap[K]) => void,
+  /**
+   * off() → all; off("click") → every click; off(".menu") → every type in the
+   * namespace; off("click.menu", h) → narrower. A handler matches what was
+   * given to on/once/onD; `opts.capture` limits removal to that phase.
+   */
+  off<K extends keyof OffMap>(
+    type?: EventSpec<K> | `.${string}`,
+    handler?: (ev: OffMap[K], match: Element) => void,
+    opts?: OnOptions,
   ): this {
     this.list.forEach((t) => {
       if (!t || !("removeEventListener" in t)) return;
-
-      if (!type) {
-        // remove all types
-        const m = REG.get(t);
-        if (!m) return;
-        m.forEach((set, typ) =>
-          set.forEach((h) => t.removeEventListener(typ, h as EventListener)),
-        );
-        REG.delete(t);
-        return;
-      }
-
-      if (handler) {
-        t.removeEventListener(type, handler as EventListener);
-        const set = regGetKey(t, type as string);
-        set.delete(handler as EventListener);
-      } else {
-        const set = regGetKey(t, type as string);
-        set.forEach((h) => t.removeEventListener(type, h as EventListener));
-        set.clear();
-      }
+      unlisten(t, type, handler, opts);
     });
     return this;
   }
 
   once<K extends keyof EventMap>(
-    type: K,
+    type: EventSpec<K>,
     handler: (ev: EventMap[K]) => void,
     opts?: OnOptions,
   ): this {
-    const wrap = (ev: Event) => {
-      handler(ev as EventMap[K]);
-      this.off(type, wrap);
-    };
-    return this.on(type, wrap, opts);
+    this.list.forEach((t) => {
+      if (!t || !("addEventListener" in t)) return;
+      const wrap = (ev: Event) => {
+        unlisten(t, type, wrap);
+        handler(ev as EventMap[K]);
+      };
+      listen(t, type, handler, wrap, opts);
+    });
+    return this;
   }
 
   /** Delegated listener: onD("click", "button", h) */
   onD<K extends keyof EventMap>(
-    type: K,
+    type: EventSpec<K>,
     sel: string,
     handler: (ev: EventMap[K], match: Element) => void,
     opts?: OnOptions,
   ): this {
-    return this.on(
-      type,
-      (ev: Event) => {
-        const t = ev.target as Element | null;
-        if (!t) return;
-        const host = this.first;
-        const root = nn(host) && "contains" in host ? host : document;
-        const match = t.closest?.(sel) as Element | null;
-        if (match && root.contains(match as Node))
-          handler(ev as EventMap[K], match);
+    this.list.forEach((host) => {
+      if (!host || !("addEventListener" in host)) return;
+      // walk the composed path so matches inside (open) shadow roots are seen
+      const wrap = (ev: Event) => {
+        for (const n of ev.composedPath()) {
+          if (n === host) return;
+          if (isElement(n) && n.matches(sel))
+            return handler(ev as EventMap[K], n);
+        }
+      };
+      listen(host, type, handler, wrap, opts);
+    });
+    return this;
+  }
+
+  // ===== Shortcuts =====
+  /**
+   * Keyboard shortcut on each target: keys("mod+k", h), sequences like
+   * keys("g i", h), alternatives as an array. Fires only for keydowns inside
+   * the target and, unless `inputs` is set, not while typing. Registered as a
+   * "keydown.keys" listener, so off()/off(".keys") removes it like any other.
+   */
+  keys(
+    combo: string | string[],
+    handler: (ev: KeyboardEvent) => void,
+    opts: KeysOptions = {},
+  ): this {
+    const { timeout = 1000, inputs = false, prevent = true, desc } = opts;
+    const combos = Array.isArray(combo) ? combo : [combo];
+    const seqs = combos.map((c) => c.trim().split(/\s+/).map(parseChord));
+    this.list.forEach((t) => {
+      if (!t || !("addEventListener" in t)) return;
+      const steps = seqs.map(() => 0);
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const wrap = (e: Event) => {
+        const ev = e as KeyboardEvent;
+        if (!inputs && isTyping(ev)) return;
+        if (/^(shift|control|alt|meta)$/i.test(ev.key ?? "")) return;
+        clearTimeout(timer);
+        let done = false;
+        seqs.forEach((seq, i) => {
+          if (!chordHit(seq[steps[i]], ev)) steps[i] = 0;
+          if (!chordHit(seq[steps[i]], ev)) return;
+          if (++steps[i] < seq.length) return;
+          steps[i] = 0;
+          done = true;
+        });
+        if (done) {
+          steps.fill(0);
+          if (prevent) ev.preventDefault();
+          handler(ev);
+        } else if (steps.some(Boolean))
+          timer = setTimeout(() => steps.fill(0), timeout);
+      };
+      const entry: Shortcut = { keys: combos.join(", "), desc, target: t };
+      SHORTCUTS.add(entry);
+      t.addEventListener("keydown", wrap);
+      register(t, {
+        type: "keydown",
+        ns: ["keys"],
+        handler,
+        wrapped: wrap,
+        capture: false,
+        dispose: () => {
+          clearTimeout(timer);
+          SHORTCUTS.delete(entry);
+          t.removeEventListener("keydown", wrap);
+        },
+      });
+    });
+    return this;
+  }
+
+  // ===== Focus =====
+  /** Tabbable descendants of every element, in Tab order */
+  tabbable(): Dom {
+    const out: Element[] = [];
+    this.each((el) => out.push(...tabbables(el)));
+    return new Dom(out);
+  }
+
+  /**
+   * Keep keyboard focus inside the first element: Tab/Shift+Tab wrap around
+   * its tabbable descendants and focus that escapes is pulled back. Returns a
+   * release function that restores the previously focused element; nested
+   * traps stack, and off(".trap") releases too.
+   */
+  trap(opts: TrapOptions = {}): () => void {
+    const el = this.first as HTMLElement | undefined;
+    if (!el) return () => {};
+    const { initial, restore = true } = opts;
+    const doc = el.ownerDocument;
+    const prev = doc.activeElement as HTMLElement | null;
+    const top = () => TRAPS[TRAPS.length - 1] === el;
+    const edge = (last: boolean) => {
+      const list = tabbables(el);
+      const target = last ? list[list.length - 1] : list[0];
+      if (target) return target.focus();
+      // nothing tabbable: hold focus on the container itself
+      if (!el.hasAttribute("tabindex")) el.setAttribute("tabindex", "-1");
+      el.focus();
+    };
+    const onKey = (e: Event) => {
+      const ev = e as KeyboardEvent;
+      if (ev.key !== "Tab" || !top()) return;
+      const list = tabbables(el);
+      const i = list.indexOf(doc.activeElement as HTMLElement);
+      if (ev.shiftKey ? i <= 0 : i === -1 || i === list.length - 1) {
+        ev.preventDefault();
+        edge(ev.shiftKey);
+      }
+    };
+    const onFocus = (ev: Event) => {
+      if (top() && !el.contains(ev.target as Node)) edge(false);
+    };
+    TRAPS.push(el);
+    el.addEventListener("keydown", onKey);
+    doc.addEventListener("focusin", onFocus);
+    const start =
+      typeof initial === "string" ? el.querySelector(initial) : initial;
+    if (start) (start as HTMLElement).focus();
+    else if (!el.contains(doc.activeElement)) edge(false);
+
+    const dispose = () => {
+      const i = TRAPS.lastIndexOf(el);
+      if (i < 0) return;
+      TRAPS.splice(i, 1);
+      el.removeEventListener("keydown", onKey);
+      doc.removeEventListener("focusin", onFocus);
+      if (restore && prev?.isConnected) prev.focus();
+    };
+    register(el, {
+      type: "keydown",
+      ns: ["trap"],
+      handler: dispose,
+      wrapped: onKey,
+      capture: false,
+      dispose,
+    });
+    return () => unlisten(el, "keydown.trap", dispose);
+  }
+
+  /**
+   * Roving tabindex: one `sel` item per element is tabbable (tabindex=0, the
+   * rest -1) and the arrow keys, Home and End move focus between items.
+   * Removable with off(".rove").
+   */
+  rove(sel: string, opts: RoveOptions = {}): this {
+    const { orientation = "both", loop = true } = opts;
+    const back: string[] = [];
+    const fwd: string[] = [];
+    if (orientation !== "vertical") {
+      back.push("ArrowLeft");
+      fwd.push("ArrowRight");
+    }
+    if (orientation !== "horizontal") {
+      back.push("ArrowUp");
+      fwd.push("ArrowDown");
+    }
+    this.each((el) => {
+      const items = () =>
+        Array.from(el.querySelectorAll<HTMLElement>(sel)).filter(
+          (i) => !(i as HTMLButtonElement).disabled && !i.closest("[hidden]"),
+        );
+      const mark = (cur: Element | undefined) =>
+        items().forEach((i) =>
+          i.setAttribute("tabindex", i === cur ? "0" : "-1"),
+        );
+      const list = items();
+      mark(
+        list.find((i) => i.getAttribute("tabindex") === "0") ??
+          list.find((i) => i.getAttribute("aria-selected") === "true") ??
+          list[0],
+      );
+      const onKey = (e: Event) => {
+        const ev = e as KeyboardEvent;
+        const list = items();
+        const i = list.findIndex((it) => it.contains(ev.target as Node));
+        if (i < 0) return;
+        const last = list.length - 1;
+        let j: number;
+        if (ev.key === "Home") j = 0;
+        else if (ev.key === "End") j = last;
+        else if (back.includes(ev.key)) j = i > 0 ? i - 1 : loop ? last : i;
+        else if (fwd.includes(ev.key)) j = i < last ? i + 1 : loop ? 0 : i;
+        else return;
+        ev.preventDefault();
+        mark(list[j]);
+        list[j].focus();
+      };
+      const onFocus = (ev: Event) => {
+        const it = items().find((i) => i.contains(ev.target as Node));
+        if (it) mark(it);
+      };
+      listen(el, "keydown.rove", onKey, onKey);
+      listen(el, "focusin.rove", onFocus, onFocus);
+    });
+    return this;
+  }
+
+  // ===== Observers =====
+  /**
+   * Visibility changes via a shared IntersectionObserver: `cb` gets each
+   * entry (check `entry.isIntersecting`). Remove with off("seen"[, cb]).
+   */
+  seen(
+    cb: (entry: IntersectionObserverEntry) => void,
+    opts: SeenOptions = {},
+  ): this {
+    const { threshold = 0, rootMargin = "0px", once = false } = opts;
+    const key = JSON.stringify([threshold, rootMargin]);
+    return this.each((el) => {
+      const fn = (e: IntersectionObserverEntry) => {
+        if (!once) return cb(e);
+        if (!e.isIntersecting) return;
+        unlisten(el, "seen", cb);
+        cb(e);
+      };
+      const create = (f: (entries: IntersectionObserverEntry[]) => void) =>
+        new IntersectionObserver(f, { threshold, rootMargin });
+      hold(el, "seen", cb, share(IO, key, create, el, fn));
+    });
+  }
+
+  /** Size changes via a shared ResizeObserver. Remove with off("resized"[, cb]) */
+  resized(
+    cb: (entry: ResizeObserverEntry) => void,
+    opts: ResizeObserverOptions = {},
+  ): this {
+    const box = opts.box ?? "content-box";
+    return this.each((el) => {
+      const create = (f: (entries: ResizeObserverEntry[]) => void) => {
+        const ro = new ResizeObserver(f);
+        return {
+          observe: (t: Element) => ro.observe(t, { box }),
+          unobserve: (t: Element) => ro.unobserve(t),
+          disconnect: () => ro.disconnect(),
+        };
+      };
+      hold(el, "resized", cb, share(RO, box, create, el, cb));
+    });
+  }
+
+  // ===== Gestures =====
+  /**
+   * Make each element draggable with Pointer Events; it moves by
+   * `transform: translate()`. Remove with off("drag").
+   */
+  drag(opts: DragOptions = {}): this {
+    const { axis, handle, bounds, onStart, onMove, onEnd } = opts;
+    const [gx, gy] = Array.isArray(opts.grid)
+      ? opts.grid
+      : [opts.grid ?? 0, opts.grid ?? 0];
+    return this.each((el) => {
+      const h = el as HTMLElement;
+      let start: {
+        px: number;
+        py: number;
+        x: number;
+        y: number;
+        box: Edges;
+      } | null = null;
+      let last = { x: 0, y: 0 };
+      const report = (ev: PointerEvent): DragMove => ({
+        el: h,
+        ...last,
+        dx: last.x - start!.x,
+        dy: last.y - start!.y,
+        event: ev,
+      });
+      (handle ? Array.from(el.querySelectorAll(handle)) : [el]).forEach((t) =>
+        setStyle(t, "touchAction", "none"),
+      );
+      const dispose = track(el, {
+        down(ev) {
+          if (start || !grabbed(ev, el, handle)) return false;
+          const pos = DRAGGED.get(el) ?? { x: 0, y: 0 };
+          // how far the translate may go either way to stay in bounds
+          let box: Edges = {
+            top: -Infinity,
+            left: -Infinity,
+            bottom: Infinity,
+            right: Infinity,
+          };
+          const b =
+            bounds === "parent"
+              ? el.parentElement
+              : typeof bounds === "string"
+                ? el.ownerDocument.querySelector(bounds)
+                : bounds;
+          if (b) {
+            const r = el.getBoundingClientRect();
+            const br = b.getBoundingClientRect();
+            box = {
+              left: pos.x + br.left - r.left,
+              right: pos.x + br.right - r.right,
+              top: pos.y + br.top - r.top,
+              bottom: pos.y + br.bottom - r.bottom,
+            };
+          }
+          start = { px: ev.clientX, py: ev.clientY, ...pos, box };
+          last = pos;
+          ev.preventDefault();
+          onStart?.(report(ev));
+        },
+        move(ev) {
+          const s = start!;
+          let dx = axis === "y" ? 0 : ev.clientX - s.px;
+          let dy = axis === "x" ? 0 : ev.clientY - s.py;
+          if (gx) dx = Math.round(dx / gx) * gx;
+          if (gy) dy = Math.round(dy / gy) * gy;
+          const clamp = (v: number, lo: number, hi: number) =>
+            Math.min(Math.max(v, lo), hi);
+          last = {
+            x: clamp(s.x + dx, s.box.left, s.box.right),
+            y: clamp(s.y + dy, s.box.top, s.box.bottom),
+          };
+          DRAGGED.set(el, last);
+          setStyle(el, "transform", `translate(${last.x}px, ${last.y}px)`);
+          onMove?.(report(ev));
+        },
+        up(ev) {
+          onEnd?.(report(ev));
+          start = null;
+        },
+      });
+      hold(el, "drag", opts, dispose);
+    });
+  }
+
+  /**
+   * Reorder items by dragging, or from the keyboard: Space/Enter picks up the
+   * focused item, arrow keys move it, Space/Enter drops and Escape cancels.
+   * The item being moved has the "sorting" class. Remove with off("sortable").
+   */
+  sortable(opts: SortOptions = {}): this {
+    const { items, handle, axis = "y", threshold = 4, onSort } = opts;
+    const [back, fwd] =
+      axis === "x" ? ["ArrowLeft", "ArrowRight"] : ["ArrowUp", "ArrowDown"];
+    return this.each((list) => {
+      const all = () => {
+        const found = items
+          ? Array.from(list.querySelectorAll(items))
+          : Array.from(list.children);
+        found.forEach((i) => {
+          if (!i.hasAttribute("tabindex")) i.setAttribute("tabindex", "0");
+        });
+        return found;
+      };
+      all();
+      // items added later (keyed(), add()) must be reachable by keyboard too
+      const unwatch = observe(
+        [list],
+        { childList: true, subtree: !!items },
+        () => all(),
+      );
+      let cur: { item: Element; from: number } | null = null;
+      const pick = (item: Element) => {
+        cur = { item, from: all().indexOf(item) };
+        item.classList.add("sorting");
+        item.setAttribute("aria-grabbed", "true");
+      };
+      const put = (item: Element, to: number) => {
+        const rest = all().filter((i) => i !== item);
+        if (to >= rest.length) rest[rest.length - 1]?.after(item);
+        else rest[to].before(item);
+      };
+      const drop = (cancel: boolean) => {
+        if (!cur) return;
+        const { item, from } = cur;
+        cur = null;
+        item.classList.remove("sorting");
+        item.setAttribute("aria-grabbed", "false");
+        if (cancel) put(item, from);
+        const to = all().indexOf(item);
+        if (to !== from) onSort?.({ item, from, to });
+      };
+      // pressed but not yet moved far enough: clicks and focus still work
+      let press: { item: Element; x: number; y: number } | null = null;
+      const pointer = track(list, {
+        down(ev) {
+          if (cur || press || !grabbed(ev, list, handle)) return false;
+          const item = all().find((i) => i.contains(ev.target as Node));
+          if (!item) return false;
+          press = { item, x: ev.clientX, y: ev.clientY };
+        },
+        move(ev) {
+          if (!press) return;
+          if (!cur) {
+            const d = Math.hypot(ev.clientX - press.x, ev.clientY - press.y);
+            if (d < threshold) return;
+            pick(press.item);
+          }
+          ev.preventDefault();
+          const item = press.item;
+          const at = axis === "x" ? ev.clientX : ev.clientY;
+          // first other item whose midpoint is past the pointer
+          const rest = all().filter((i) => i !== item);
+          const to = rest.findIndex((i) => {
+            const r = i.getBoundingClientRect();
+            return (
+              at < (axis === "x" ? r.left + r.width / 2 : r.top + r.height / 2)
+            );
+          });
+          const idx = to < 0 ? rest.length : to;
+          if (all().indexOf(item) !== idx) put(item, idx);
+        },
+        up(_, cancelled) {
+          press = null;
+          drop(cancelled);
+        },
+      });
+      const key = (e: Event) => {
+        const ev = e as KeyboardEvent;
+        const item = all().find((i) => i === ev.target);
+        if (!item) return;
+        if (ev.key === " " || ev.key === "Enter") {
+          ev.preventDefault();
+          if (cur) drop(false);
+          else pick(item);
+        } else if (cur?.item === item && ev.key === "Escape") {
+          drop(true);
+          (item as HTMLElement).focus();
+        } else if (cur?.item === item && (ev.key === back || ev.key === fwd)) {
+          ev.preventDefault();
+          const i = all().indexOf(item) + (ev.key === back ? -1 : 1);
+          if (i >= 0 && i < all().length) put(item, i);
+          (item as HTMLElement).focus();
+        }
+      };
+      list.addEventListener("keydown", key);
+      hold(list, "sortable", opts, () => {
+        press = null;
+        drop(true);
+        pointer();
+        unwatch();
+        list.removeEventListener("keydown", key);
+      });
+    });
+  }
+
+  /**
+   * Swipe gestures: `cb` gets the dominant direction once a pointer moves at
+   * least `threshold` px within `time` ms, and the element emits a "swipe"
+   * CustomEvent with the same detail. Remove with off("swipe"[, cb]).
+   */
+  swipe(cb?: (s: Swipe) => void, opts: SwipeOptions = {}): this {
+    const { threshold = 50, time = 500 } = opts;
+    return this.each((el) => {
+      let start: { x: number; y: number; t: number } | null = null;
+      const dispose = track(el, {
+        down(ev) {
+          if (start) return false;
+          start = { x: ev.clientX, y: ev.clientY, t: performance.now() };
+        },
+        move() {},
+        up(ev, cancelled) {
+          const s = start;
+          start = null;
+          if (!s || cancelled) return;
+          const dt = performance.now() - s.t;
+          const dx = ev.clientX - s.x;
+          const dy = ev.clientY - s.y;
+          const flat = Math.abs(dx) >= Math.abs(dy);
+          const dist = flat ? Math.abs(dx) : Math.abs(dy);
+          if (dt > time || dist < threshold) return;
+          const dir = flat
+            ? dx < 0
+              ? "left"
+              : "right"
+            : dy < 0
+              ? "up"
+              : "down";
+          const swipe: Swipe = {
+            dir,
+            dx,
+            dy,
+            velocity: dist / Math.max(1, dt),
+            event: ev,
+          };
+          cb?.(swipe);
+          new Dom<Item>(el).emit("swipe", swipe);
+        },
+      });
+      hold(el, "swipe", cb, dispose);
+    });
+  }
+
+  /**
+   * Two-pointer pinch: `cb` gets the scale relative to the start of the
+   * pinch once it changes by `threshold`, and the element emits a "pinch"
+   * CustomEvent with the same detail. Remove with off("pinch"[, cb]).
+   */
+  pinch(cb?: (p: Pinch) => void, opts: PinchOptions = {}): this {
+    const { threshold = 0.05 } = opts;
+    return this.each((el) => {
+      const pts = new Map<number, { x: number; y: number }>();
+      let d0 = 0;
+      let active = false;
+      const pair = () => Array.from(pts.values()).slice(0, 2);
+      const dispose = track(el, {
+        down(ev) {
+          if (pts.size >= 2) return false;
+          pts.set(ev.pointerId, { x: ev.clientX, y: ev.clientY });
+          if (pts.size < 2) return;
+          const [a, b] = pair();
+          d0 = Math.hypot(a.x - b.x, a.y - b.y);
+          active = false;
+        },
+        move(ev) {
+          pts.set(ev.pointerId, { x: ev.clientX, y: ev.clientY });
+          if (pts.size < 2 || !d0) return;
+          const [a, b] = pair();
+          const scale = Math.hypot(a.x - b.x, a.y - b.y) / d0;
+          if (!active && Math.abs(scale - 1) < threshold) return;
+          active = true;
+          const pinch = {
+            scale,
+            x: (a.x + b.x) / 2,
+            y: (a.y + b.y) / 2,
+            event: ev,
+          };
+          cb?.(pinch);
+          new Dom<Item>(el).emit("pinch", pinch);
+        },
+        up(ev) {
+          pts.delete(ev.pointerId);
+          d0 = 0;
+        },
+      });
+      hold(el, "pinch", cb, dispose);
+    });
+  }
+
+  // ===== Mutations =====
+  /**
+   * Observe each element (or document) with a MutationObserver and report
+   * added/removed/changed elements as Dom collections. Returns a disposer.
+   */
+  watch(opts: WatchOptions, cb: (m: Mutations) => void): () => void {
+    const { filter, subtree = true, attributes } = opts;
+    const childList = opts.childList ?? !attributes;
+    const test =
+      typeof filter === "string"
+        ? (el: Element) => el.matches(filter)
+        : (filter ?? (() => true));
+    const init: MutationObserverInit = { childList, subtree };
+    if (attributes) {
+      init.attributes = true;
+      if (Array.isArray(attributes)) init.attributeFilter = attributes;
+    }
+    return observe(this.list, init, (records) => {
+      const added = new Set<Element>();
+      const removed = new Set<Element>();
+      const changed = new Set<Element>();
+      records.forEach((r) => {
+        if (r.type === "attributes") collect([r.target], test, false, changed);
+        collect(r.addedNodes, test, !!filter, added);
+        collect(r.removedNodes, test, !!filter, removed);
+      });
+      if (!added.size && !removed.size && !changed.size) return;
+      cb({
+        added: new Dom([...added]),
+        removed: new Dom([...removed]),
+        changed: new Dom([...changed]),
+        records,
+      });
+    });
+  }
+
+  /**
+   * Run `enter` for every current and future element matching `sel` inside
+   * each root, and `leave` when it is removed or stops matching. Returns a
+   * disposer.
+   */
+  live(
+    sel: string,
+    enter: (el: Element) => void,
+    leave?: (el: Element) => void,
+  ): () => void {
+    const roots = (this.list as Item[]).filter(
+      (t): t is Element | Document => !!t && "querySelectorAll" in t,
+    );
+    const inside = (el: Element) =>
+      roots.some((r) => r !== el && r.contains(el));
+    const seen = new Set<Element>();
+    const sync = (el: Element) => {
+      const now = el.isConnected && inside(el) && el.matches(sel);
+      if (now === seen.has(el)) return;
+      if (now) {
+        seen.add(el);
+        enter(el);
+      } else {
+        seen.delete(el);
+        leave?.(el);
+      }
+    };
+    roots.forEach((r) => r.querySelectorAll(sel).forEach(sync));
+    return observe(
+      roots,
+      { childList: true, subtree: true, attributes: true },
+      (records) => {
+        const touched = new Set<Element>();
+        records.forEach((r) => {
+          if (r.type === "attributes")
+            collect([r.target], () => true, false, touched);
+          collect(r.addedNodes, () => true, true, touched);
+          // moved or removed: re-check everything we track
+          if (r.removedNodes.length) seen.forEach((el) => touched.add(el));
+        });
+        touched.forEach(sync);
       },
-      opts,
     );
   }
 
+  /** Dispatch a CustomEvent on each target: emit("cart:add", { sku }) */
+  emit<K extends keyof DomEvents>(
+    type: K,
+    detail: DomEvents[K],
+    opts?: EmitOptions,
+  ): this;
+  /** Undeclared event names are accepted with an untyped detail */
+  emit<T extends string>(
+    type: T extends keyof DomEvents ? never : T,
+    detail?: unknown,
+    opts?: EmitOptions,
+  ): this;
+  emit(type: string, detail?: unknown, opts: EmitOptions = {}): this {
+    const { bubbles = true, composed = false, cancelable = true } = opts;
+    this.list.forEach((t) => {
+      if (!t || !("dispatchEvent" in t)) return;
+      // the target's own realm, so iframes and server DOMs get their CustomEvent
+      const view = (isWindow(t) ? t : docOf(t).defaultView) as
+        | typeof globalThis
+        | null;
+      t.dispatchEvent(
+        new (view?.CustomEvent ?? CustomEvent)(type, {
+          detail,
+          bubbles,
+          composed,
+          cancelable,
+        }),
+      );
+    });
+    return this;
+  }
+
   // ===== Scroll =====
   top(v?: number): this | number {
-    const t = this.first as any;
-    if (v === undefined) return t?.scrollTop ?? window.scrollY ?? 0;
+    if (v === undefined) {
+      const s = this.first ? scrollerOf(this.first) : win();
+      return s ? scrollPos(s).top : 0;
+    }
     this.list.forEach((n) => {
-      if ("scrollTop" in (n as any)) (n as any).scrollTop = v;
-      else window.scrollTo({ top: v });
+      const s = scrollerOf(n);
+      if (s) scrollSet(s, v, undefined);
     });
     return this;
   }
 
   left(v?: number): this | number {
-    const t = this.first as any;
-    if (v === undefined) return t?.scrollLeft ?? window.scrollX ?? 0;
+    if (v === undefined) {
+      const s = this.first ? scrollerOf(this.first) : win();
+      return s ? scrollPos(s).left : 0;
+    }
     this.list.forEach((n) => {
-      if ("scrollLeft" in (n as any)) (n as any).scrollLeft = v;
-      else window.scrollTo({ left: v });
+      const s = scrollerOf(n);
+      if (s) scrollSet(s, undefined, v);
     });
     return this;
   }
 
   // ===== Utility =====
-  pipe(fn: (d: Dom) => void): this {
+  pipe(fn: (d: this) => void): this {
     fn(this);
     return this;
   }
@@ -539,14 +3995,384 @@ export class Dom {
   }
 }
 
+// ===== Templates =====
+
+/** A dynamic attribute: static chunks interleaved with the holes they wrap */
+type AttrSpec = { name: string; statics: string[]; holes: number[] };
+
+type Compiled = {
+  tpl: HTMLTemplateElement;
+  attrs: AttrSpec[];
+  /** Hole index of each `<!--mw-->` child marker, in document order */
+  nodes: number[];
+};
+
+type Part =
+  | { kind: "node"; hole: number; start: Comment; nodes: Node[]; sub?: View }
+  | { kind: "attr"; el: Element; spec: AttrSpec; fn?: unknown };
+
+/** A live template instance: its parts and the values they last rendered */
+type View = {
+  strings: TemplateStringsArray;
+  values: unknown[];
+  parts: Part[];
+  nodes: Node[];
+};
+
+/**
+ * What `html` returns until its nodes are needed: the template and its values,
+ * plus the instance once something reads the Dom's list
+ */
+type Result = {
+  strings: TemplateStringsArray;
+  values: unknown[];
+  view?: View;
+};
+
+/** Parsed templates, keyed by the (call-site stable) strings array */
+const COMPILED = new WeakMap<TemplateStringsArray, Compiled>();
+
+/** Template result behind each Dom returned by `html` */
+const VIEWS = new WeakMap<Dom, Result>();
+
+/** Template instance currently rendered into each container */
+const MOUNTED = new WeakMap<Element | DocumentFragment, View>();
+
+/** Elements whose content the parser reads as text, so no marker survives */
+const RAW_TEXT = new Set([
+  "script",
+  "style",
+  "textarea",
+  "title",
+  "xmp",
+  "iframe",
+  "noembed",
+  "noframes",
+]);
+
+/** `.prop` bindings that would hand their value to the HTML parser */
+const MARKUP_PROPS = new Set([".innerhtml", ".outerhtml", ".srcdoc"]);
+
+function compile(strings: TemplateStringsArray): Compiled {
+  const hit = COMPILED.get(strings);
+  if (hit) return hit;
+  let out = "";
+  let mode: "text" | "tag" | "comment" | '"' | "'" = "text";
+  let cur: AttrSpec | null = null;
+  // where the current tag starts in `out`, and the raw-text element we are in
+  let tag = 0;
+  let rawText: string | null = null;
+  const attrs: AttrSpec[] = [];
+  const nodes: number[] = [];
+
+  strings.forEach((raw, i) => {
+    let s = i === 0 ? raw.trimStart() : raw;
+    if (i === strings.length - 1) s = s.trimEnd();
+    for (let j = 0; j < s.length; j++) {
+      const ch = s[j];
+      if (rawText) {
+        if (
+          s.slice(j, j + rawText.length + 2).toLowerCase() === `</${rawText}`
+        ) {
+          rawText = null;
+          mode = "tag";
+          tag = out.length;
+        }
+      } else if (mode === "text") {
+        if (s.startsWith("<!--", j)) mode = "comment";
+        else if (ch === "<" && /[a-zA-Z/]/.test(s[j + 1] ?? "")) {
+          mode = "tag";
+          tag = out.length;
+        }
+      } else if (mode === "comment") {
+        if (s.startsWith("-->", j)) {
+          mode = "text";
+          out += "-->";
+          j += 2;
+          continue;
+        }
+      } else if (mode === "tag") {
+        if (ch === '"' || ch === "'") mode = ch;
+        else if (ch === ">") {
+          mode = "text";
+          const name = /^<([a-zA-Z][^\s/>]*)/.exec(out.slice(tag))?.[1];
+          if (name && RAW_TEXT.has(name.toLowerCase()))
+            rawText = name.toLowerCase();
+        }
+      } else if (ch === mode) {
+        mode = "tag";
+        cur = null;
+      } else if (cur) {
+        // static text inside a dynamic attribute value
+        cur.statics[cur.statics.length - 1] += ch;
+        continue;
+      }
+      out += ch;
+    }
+    if (i === strings.length - 1) return;
+
+    if (rawText) {
+      throw new Error(
+        rawText === "textarea"
+          ? "html: interpolation inside <textarea> is not supported — use .value=${…}"
+          : `html: interpolation inside <${rawText}> is not supported`,
+      );
+    } else if (mode === "text") {
+      nodes.push(i);
+      out += "<!--mw-->";
+    } else if (mode === "comment") {
+      throw new Error("html: interpolation inside a comment is not supported");
+    } else if (cur) {
+      cur.holes.push(i);
+      cur.statics.push("");
+    } else {
+      const m =
+        mode === "tag"
+          ? /([^\s"'<>/=]+)=$/.exec(out)
+          : /([^\s"'<>/=]+)=(["'])([^"']*)$/.exec(out);
+      if (!m)
+        throw new Error(
+          "html: interpolation must be a child or an attribute value",
+        );
+      if (scriptAttr(m[1].toLowerCase()))
+        throw new Error(
+          `html: ${m[1]}=\${…} is not allowed — use @event=\${fn} for listeners`,
+        );
+      if (MARKUP_PROPS.has(m[1].toLowerCase()))
+        throw new Error(
+          `html: ${m[1]}=\${…} is not allowed — interpolate the value as a child`,
+        );
+      const spec = {
+        name: m[1],
+        statics: [mode === "tag" ? "" : m[3], ""],
+        holes: [i],
+      };
+      // the parser would lowercase or reject names like `@click`/`.value`
+      out =
+        out.slice(0, m.index) +
+        `mw-${attrs.length}=` +
+        (mode === "tag" ? '""' : m[2]);
+      attrs.push(spec);
+      if (mode !== "tag") cur = spec;
+    }
+  });
+
+  const tpl = doc().createElement("template");
+  tpl.innerHTML = out;
+  const c = { tpl, attrs, nodes };
+  COMPILED.set(strings, c);
+  return c;
+}
+
+function instantiate(strings: TemplateStringsArray, values: unknown[]): View {
+  const c = compile(strings);
+  const frag = doc().importNode(c.tpl.content, true);
+  const parts: Part[] = [];
+  let k = 0;
+  const walk = (n: Node) =>
+    Array.from(n.childNodes).forEach((child) => {
+      if (child.nodeType === 8 && (child as Comment).data === "mw") {
+        const hole = c.nodes[k++];
+        parts.push({ kind: "node", hole, start: child as Comment, nodes: [] });
+      } else if (isElement(child)) {
+        Array.from(child.attributes).forEach((a) => {
+          const m = /^mw-(\d+)$/.exec(a.name);
+          if (!m) return;
+          child.removeAttribute(a.name);
+          parts.push({ kind: "attr", el: child, spec: c.attrs[+m[1]] });
+        });
+        walk(child);
+      }
+    });
+  walk(frag);
+  const view: View = { strings, values, parts, nodes: [] };
+  patch(view, values, true);
+  view.nodes = Array.from(frag.childNodes);
+  return view;
+}
+
+/** The instance behind an `html` result, building it if nothing has yet */
+function viewOf(d: Dom): View | undefined {
+  void d.list;
+  return VIEWS.get(d)?.view;
+}
+
+function patch(view: View, values: unknown[], force = false) {
+  const prev = view.values;
+  view.values = values;
+  view.parts.forEach((p) => {
+    if (p.kind === "node") {
+      if (force || !Object.is(values[p.hole], prev[p.hole]))
+        setNode(p, values[p.hole]);
+    } else if (
+      force ||
+      p.spec.holes.some((h) => !Object.is(values[h], prev[h]))
+    )
+      setAttr(p, values);
+  });
+}
+
+function toNodes(v: unknown, d: Document): Node[] {
+  if (v == null || v === false) return [];
+  if (Array.isArray(v)) return v.flatMap((x) => toNodes(x, d));
+  if (v instanceof Dom) return v.list as unknown as Node[];
+  if (isNode(v)) return [v];
+  return [d.createTextNode(String(v))];
+}
+
+function setNode(p: Extract<Part, { kind: "node" }>, v: unknown) {
+  const next = v instanceof Dom ? VIEWS.get(v) : undefined;
+  if (next && p.sub?.strings === next.strings) {
+    patch(p.sub, next.values);
+    return;
+  }
+  const only = p.nodes.length === 1 ? p.nodes[0] : undefined;
+  if (
+    only?.nodeType === 3 &&
+    v != null &&
+    typeof v !== "object" &&
+    v !== false
+  ) {
+    (only as Text).data = String(v);
+    return;
+  }
+  p.nodes.forEach((n) => {
+    if (isElement(n)) release(n);
+    n.parentNode?.removeChild(n);
+  });
+  p.nodes = toNodes(v, p.start.ownerDocument!);
+  p.sub = next?.view;
+  const parent = p.start.parentNode;
+  const ref = p.start.nextSibling;
+  p.nodes.forEach((n) => parent?.insertBefore(n, ref));
+}
+
+function setAttr(p: Extract<Part, { kind: "attr" }>, values: unknown[]) {
+  const { el, spec } = p;
+  const v = values[spec.holes[0]];
+  const name = spec.name.slice(1);
+  switch (spec.name[0]) {
+    case "@":
+      // one stable listener; re-renders only swap the function it calls
+      if (p.fn === undefined)
+        new Dom(el).on(name as keyof EventMap, (ev: Event) => {
+          if (typeof p.fn === "function") p.fn.call(el, ev);
+        });
+      p.fn = v ?? null;
+      return;
+    case ".":
+      (el as any)[name] = v;
+      return;
+    case "?":
+      el.toggleAttribute(name, !!v);
+      return;
+  }
+  const whole = spec.holes.length === 1 && spec.statics.join("") === "";
+  if (whole && (v == null || v === false)) {
+    el.removeAttribute(spec.name);
+    return;
+  }
+  const str = spec.statics.reduce(
+    (acc, s, i) =>
+      acc + s + (i < spec.holes.length ? (values[spec.holes[i]] ?? "") : ""),
+    "",
+  );
+  if (!safeValue(spec.name.toLowerCase(), str, POLICY.schemes))
+    el.removeAttribute(spec.name);
+  else el.setAttribute(spec.name, str);
+}
+
+/**
+ * Tagged template returning a Dom. Interpolated values never reach the HTML
+ * parser: children become text nodes (or nested Dom/Node/arrays), attributes
+ * are set with `setAttribute` (URL, srcset and style values get the
+ * sanitizer's checks; `on*` and `srcdoc` cannot be interpolated at all).
+ * `@event=${fn}` adds a listener, `.prop=${v}` sets a property (except
+ * `.innerHTML`, `.outerHTML` and `.srcdoc`) and
+ * `?attr=${bool}` toggles a boolean attribute. Pass the result to
+ * `dom(el).render()` to patch only the dynamic parts on re-render; the nodes
+ * (and their listeners) are only built when render() has nothing to patch or
+ * the Dom is otherwise used.
+ */
+export function html(strings: TemplateStringsArray, ...values: unknown[]): Dom {
+  compile(strings);
+  const realm = REALM;
+  const res: Result = { strings, values };
+  const d = new Dom();
+  VIEWS.set(d, res);
+  Object.defineProperty(d, "list", {
+    configurable: true,
+    get() {
+      const prev = REALM;
+      REALM = realm;
+      try {
+        res.view = instantiate(strings, values);
+      } finally {
+        REALM = prev;
+      }
+      Object.defineProperty(d, "list", { value: res.view.nodes });
+      return res.view.nodes;
+    },
+  });
+  return d;
+}
+
 // ===== Entry sugar =====
-export function dom(input?: DomInput, root?: Document | Element) {
-  return new Dom(input, root);
+export function dom<K extends HTMLTag>(
+  sel: K,
+  root?: ParentNode,
+): Dom<HTMLElementTagNameMap[K]>;
+export function dom<K extends SVGTag>(
+  sel: K,
+  root?: ParentNode,
+): Dom<SVGElementTagNameMap[K]>;
+export function dom(sel: string, root?: ParentNode): Dom;
+export function dom<T extends Item = Element>(
+  input?: T | ArrayLike<T> | Dom<T> | null,
+  root?: ParentNode,
+): Dom<T>;
+export function dom(input?: DomInput, root?: ParentNode): Dom<Item>;
+export function dom(input?: DomInput | null, root?: ParentNode) {
+  return new Dom<Item>(input ?? undefined, root);
 }
 
 // Named factory for “single-word” create
+export function make(html: `<${string}`, policy?: SanitizePolicy): Dom;
+export function make<K extends HTMLTag>(
+  tag: K,
+  attrs?: Record<string, any>,
+): Dom<HTMLElementTagNameMap[K]>;
+export function make(htmlOrTag: string, attrs?: Record<string, any>): Dom;
 export function make(htmlOrTag: string, attrs?: Record<string, any>) {
   return Dom.make(htmlOrTag, attrs);
 }
 
+dom.measure = measure;
+dom.mutate = mutate;
+
+/**
+ * `dom`, `make`, `html`, `sanitize` and `announce` bound to a given document: a server
+ * DOM implementation, an iframe or a per-test window. Methods follow the
+ * document of the nodes they act on, so sets keep working in that realm.
+ */
+export function createDom(realm: Realm) {
+  const bound = <F extends (...args: any[]) => any>(fn: F): F =>
+    ((...args: unknown[]) => {
+      const prev = REALM;
+      REALM = realm;
+      try {
+        return fn(...args);
+      } finally {
+        REALM = prev;
+      }
+    }) as F;
+  return {
+    dom: Object.assign(bound(dom), { measure, mutate }),
+    make: bound(make),
+    html: bound(html),
+    sanitize: bound(sanitize),
+    announce: bound(announce),
+  };
+}
+
 export default dom;
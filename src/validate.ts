@@ -0,0 +1,248 @@
+// @marwajs/dom/validate
+// Form validation: native Constraint Validation API + custom sync/async rules.
+// Usage:
+//   import { validate } from "@marwajs/dom/validate";
+//   const v = validate("#signup", {
+//     rules: { email: async (v) => (await isFree(v)) || "Email already taken" },
+//   });
+//   await v.check(); v.summary.value; // { valid, pending, errors }
+
+import {
+  dom,
+  signal,
+  type DomInput,
+  type FormValue,
+  type FormValues,
+  type ReadSignal,
+} from "./index.js";
+
+type Control = HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement;
+
+/** `true`/`null`/`undefined` pass, a string is the error message, `false` a generic one */
+export type RuleResult = boolean | string | null | undefined;
+
+export type Rule = (
+  value: FormValue | undefined,
+  ctx: { name: string; el: Control; values: FormValues },
+) => RuleResult | Promise<RuleResult>;
+
+export type Trigger = "blur" | "input" | "submit";
+
+export type Summary = {
+  valid: boolean;
+  pending: boolean;
+  /** First error message per field name */
+  errors: Record<string, string>;
+};
+
+export type ValidateOptions = {
+  /** Custom rules per control name, run after the native checks pass */
+  rules?: Record<string, Rule | Rule[]>;
+  /** When to validate (default: blur + submit; invalid fields re-check on input) */
+  on?: Trigger[];
+  /** Messages for native failures, keyed by ValidityState flag */
+  messages?: Partial<Record<keyof ValidityState, string>>;
+  /** Where a field's message is rendered (default: `[data-error="name"]`) */
+  slot?: (name: string, form: Element) => Element | null;
+  /** Class toggled on invalid controls (default: "invalid") */
+  invalid?: string;
+  /** Called on a valid submit; without it the form submits natively */
+  submit?: (values: FormValues, ev: Event) => void;
+};
+
+export interface Validator {
+  /** Live validation state; bind it (`dom(x).text(computed(…))`) or read `.value` */
+  readonly summary: ReadSignal<Summary>;
+  /** Validate one field, or all fields when no name is given */
+  check(name?: string): Promise<boolean>;
+  /** Clear every error, class and message */
+  reset(): this;
+  /** Remove the form listeners */
+  destroy(): void;
+}
+
+const NATIVE: Partial<Record<keyof ValidityState, string>> = {
+  valueMissing: "This field is required",
+  typeMismatch: "Please enter a valid value",
+  patternMismatch: "Please match the requested format",
+  tooLong: "Please shorten this value",
+  tooShort: "Please lengthen this value",
+  rangeUnderflow: "Value is too low",
+  rangeOverflow: "Value is too high",
+  stepMismatch: "Please enter a valid step",
+  badInput: "Please enter a valid value",
+};
+
+function fieldsOf(form: Element): Map<string, Control[]> {
+  const out = new Map<string, Control[]>();
+  form.querySelectorAll("input, select, textarea").forEach((c) => {
+    const el = c as Control;
+    if (!el.name || /^(submit|button|reset|image)$/.test(el.type)) return;
+    out.set(el.name, [...(out.get(el.name) ?? []), el]);
+  });
+  return out;
+}
+
+/** Value of a bracketed name ("user[address][city]") inside `form()` output */
+function valueOf(values: FormValues, name: string): FormValue | undefined {
+  let cur: FormValue | undefined = values;
+  for (const seg of name.replace(/\]/g, "").split("[")) {
+    if (seg === "") break;
+    if (cur == null || typeof cur !== "object") return undefined;
+    cur = (cur as FormValues)[seg];
+  }
+  return cur;
+}
+
+/** Attach validation to a form */
+export function validate(
+  form: DomInput,
+  options: ValidateOptions = {},
+): Validator {
+  const $form = dom(form);
+  const root = $form.first as HTMLFormElement | undefined;
+  if (!root || !("querySelectorAll" in root))
+    throw new Error("validate: form element not found");
+
+  const cls = options.invalid ?? "invalid";
+  const on = options.on ?? ["blur", "submit"];
+  const slotOf =
+    options.slot ??
+    ((name: string, f: Element) =>
+      f.querySelector(`[data-error="${CSS.escape(name)}"]`));
+
+  const errors: Record<string, string> = {};
+  const pending = new Set<string>();
+  const tokens = new Map<string, number>();
+  const summary = signal<Summary>({ valid: true, pending: false, errors: {} });
+  const publish = () =>
+    (summary.value = {
+      valid: !Object.keys(errors).length && !pending.size,
+      pending: pending.size > 0,
+      errors: { ...errors },
+    });
+
+  // with submit handling we render messages ourselves, so keep the browser's
+  // bubbles out of the way; without it the browser's checks stay in place
+  const noValidate = root.noValidate;
+  if (on.includes("submit") && "noValidate" in root) root.noValidate = true;
+
+  function show(name: string, ctrls: Control[], msg: string | undefined) {
+    if (msg) errors[name] = msg;
+    else delete errors[name];
+    const slot = slotOf(name, root!);
+    if (slot) dom(slot).text(msg ?? "");
+    ctrls.forEach((c) => {
+      c.setCustomValidity(msg ?? "");
+      dom(c)
+        .class(msg ? cls : `!${cls}`)
+        .attr("aria-invalid", msg ? "true" : null);
+      if (slot?.id) {
+        const ids = (c.getAttribute("aria-describedby") ?? "")
+          .split(/\s+/)
+          .filter((id) => id && id !== slot.id);
+        if (msg) ids.push(slot.id);
+        dom(c).attr("aria-describedby", ids.join(" ") || null);
+      }
+    });
+  }
+
+  async function run(name: string, ctrls: Control[]): Promise<string | void> {
+    ctrls.forEach((c) => c.setCustomValidity(""));
+    const bad = ctrls.find((c) => !c.validity.valid);
+    if (bad) {
+      const flag = (Object.keys(NATIVE) as (keyof ValidityState)[]).find(
+        (k) => bad.validity[k],
+      );
+      return (
+        (flag && options.messages?.[flag]) ||
+        bad.validationMessage ||
+        (flag && NATIVE[flag]) ||
+        "Invalid value"
+      );
+    }
+    const rules = options.rules?.[name];
+    if (!rules) return;
+    const values = $form.form();
+    const ctx = { name, el: ctrls[0], values };
+    for (const rule of Array.isArray(rules) ? rules : [rules]) {
+      const r = await rule(valueOf(values, name), ctx);
+      if (r === false) return "Invalid value";
+      if (typeof r === "string") return r;
+    }
+  }
+
+  async function checkField(name: string): Promise<boolean> {
+    const ctrls = fieldsOf(root!).get(name);
+    if (!ctrls) return true;
+    // latest run wins; a slow async rule must not overwrite a newer result
+    const token = (tokens.get(name) ?? 0) + 1;
+    tokens.set(name, token);
+    pending.add(name);
+    publish();
+    let msg: string | void;
+    try {
+      msg = await run(name, ctrls);
+    } catch (err) {
+      msg = err instanceof Error ? err.message : String(err);
+    }
+    if (tokens.get(name) !== token) return !errors[name];
+    pending.delete(name);
+    show(name, ctrls, msg || undefined);
+    publish();
+    return !msg;
+  }
+
+  const nameOf = (ev: Event) => (ev.target as Control | null)?.name;
+
+  const onBlur = (ev: Event) => {
+    const name = nameOf(ev);
+    if (name && fieldsOf(root).has(name)) void checkField(name);
+  };
+  const onInput = (ev: Event) => {
+    const name = nameOf(ev);
+    if (!name || !fieldsOf(root).has(name)) return;
+    if (on.includes("input") || errors[name]) void checkField(name);
+  };
+  const onSubmit = async (ev: Event) => {
+    ev.preventDefault();
+    if (!(await v.check())) {
+      const first = root.querySelector<HTMLElement>('[aria-invalid="true"]');
+      first?.focus();
+      return;
+    }
+    if (options.submit) options.submit($form.form(), ev);
+    else root.submit?.();
+  };
+
+  if (on.includes("blur")) $form.on("focusout", onBlur);
+  $form.on("input", onInput);
+  $form.on("change", onInput);
+  if (on.includes("submit")) $form.on("submit", onSubmit);
+
+  const v: Validator = {
+    summary,
+    async check(name?: string) {
+      if (name) return checkField(name);
+      const names = Array.from(fieldsOf(root).keys());
+      const results = await Promise.all(names.map(checkField));
+      return results.every(Boolean);
+    },
+    reset() {
+      tokens.forEach((t, name) => tokens.set(name, t + 1));
+      pending.clear();
+      fieldsOf(root).forEach((ctrls, name) => show(name, ctrls, undefined));
+      publish();
+      return this;
+    },
+    destroy() {
+      $form
+        .off("focusout", onBlur)
+        .off("input", onInput)
+        .off("change", onInput)
+        .off("submit", onSubmit);
+      if ("noValidate" in root) root.noValidate = noValidate;
+    },
+  };
+  return v;
+}